@@ -0,0 +1,239 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ListPlus, Upload, Play, Square, Download, Trash2, Check, AlertCircle, RefreshCw, Clock } from 'lucide-react';
+import { AspectRatio, VoiceName, GenerationProvider } from '../types';
+import { BatchJob, parseBatchInput, createBatchJobs, runBatch, collectBatchFiles } from '../services/batchQueue';
+import { createZip } from '../services/zipUtils';
+import { downloadBlob } from '../services/exportService';
+import { checkBudget, estimateScriptCost, estimateFilmingCost } from '../services/usageLedger';
+import { createMovie } from '../services/movieUtils';
+import { subscribeProgress, describeStageDetail, batchScope, ProgressEvent } from '../services/progress';
+
+interface BatchQueueProps {
+  provider: GenerationProvider;
+  defaultAspectRatio: AspectRatio;
+  defaultVoice: VoiceName;
+  disabled: boolean;
+  onLibraryChanged: () => void;
+}
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({
+  provider,
+  defaultAspectRatio,
+  defaultVoice,
+  disabled,
+  onLibraryChanged,
+}) => {
+  const [input, setInput] = useState('');
+  const [videoLimit, setVideoLimit] = useState(2);
+  const [speechLimit, setSpeechLimit] = useState(4);
+  const [saveToLibrary, setSaveToLibrary] = useState(true);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [renders, setRenders] = useState<Record<string, ProgressEvent>>({}); // latest render progress per job scope
+
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const finishedJobs = jobs.filter((job) => job.movie);
+
+  useEffect(() => subscribeProgress((event) => {
+    if (event.stage === 'video') setRenders((prev) => ({ ...prev, [event.scope]: event }));
+  }), []);
+
+  const updateJob = (jobId: string, patch: Partial<BatchJob>) => {
+    setJobs((prev) => prev.map((job) => (job.id === jobId ? { ...job, ...patch } : job)));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setInput(await file.text());
+    }
+    e.target.value = '';
+  };
+
+  const startBatch = async () => {
+    const inputs = parseBatchInput(input, { aspectRatio: defaultAspectRatio, voice: defaultVoice });
+    if (inputs.length === 0) return;
+
+    // Each job is one script call plus one filmed and voiced scene
+    const estimate = inputs.reduce((sum, job) => {
+      const placeholder = createMovie(job.idea, [{ prompt: job.idea, narration: job.idea, duration: 8 }], job.aspectRatio, job.voice);
+      return sum + estimateScriptCost(provider, job.idea) + estimateFilmingCost(provider, placeholder, placeholder.scenes);
+    }, 0);
+    const verdict = checkBudget(estimate);
+    if (!verdict.allowed) {
+      window.alert(verdict.message);
+      return;
+    }
+    if (verdict.message && !window.confirm(verdict.message)) return;
+
+    const queued = createBatchJobs(inputs);
+    setJobs((prev) => [...prev, ...queued]);
+    setInput('');
+    setIsRunning(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    await runBatch(queued, {
+      provider,
+      limits: { video: videoLimit, speech: speechLimit },
+      saveToLibrary,
+      signal: controller.signal,
+      onUpdate: (jobId, patch) => {
+        updateJob(jobId, patch);
+        if (saveToLibrary && patch.status?.step === 'complete') onLibraryChanged();
+      },
+    });
+
+    abortRef.current = null;
+    setIsRunning(false);
+    if (saveToLibrary) onLibraryChanged();
+  };
+
+  const cancelBatch = () => {
+    abortRef.current?.abort();
+  };
+
+  const clearJobs = () => {
+    jobs.forEach((job) => job.movie?.scenes.forEach((s) => s.videoUrl && URL.revokeObjectURL(s.videoUrl)));
+    setJobs([]);
+  };
+
+  const downloadZip = async () => {
+    setIsZipping(true);
+    try {
+      const zip = await createZip(await collectBatchFiles(finishedJobs));
+      downloadBlob(zip, `cinegen_batch_${Date.now()}.zip`);
+    } catch (err) {
+      console.error('Failed to build batch zip', err);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="mt-12 bg-zinc-900/50 p-8 rounded-3xl border border-zinc-800 backdrop-blur-xl shadow-xl space-y-6">
+      <h2 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+        <ListPlus className="w-4 h-4" /> Batch Queue
+      </h2>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={'One idea per line, or CSV:\nidea,aspect ratio,voice\n"A lighthouse in a storm",16:9,Charon'}
+            className="w-full bg-zinc-950 border border-zinc-800 rounded-xl p-4 text-zinc-100 placeholder-zinc-600 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-none h-32 text-sm font-mono"
+          />
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors"
+            >
+              <Upload size={14} /> Load CSV
+            </button>
+            <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="hidden" />
+            <span className="text-xs text-zinc-600">
+              Missing columns use the current format ({defaultAspectRatio}) and voice ({defaultVoice}).
+            </span>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-xs text-zinc-400">
+              Veo concurrency
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={videoLimit}
+                onChange={(e) => setVideoLimit(Math.max(1, Number(e.target.value) || 1))}
+                disabled={isRunning}
+                className="mt-1 w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-zinc-100 focus:outline-none"
+              />
+            </label>
+            <label className="block text-xs text-zinc-400">
+              TTS concurrency
+              <input
+                type="number"
+                min={1}
+                max={16}
+                value={speechLimit}
+                onChange={(e) => setSpeechLimit(Math.max(1, Number(e.target.value) || 1))}
+                disabled={isRunning}
+                className="mt-1 w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-zinc-100 focus:outline-none"
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input
+              type="checkbox"
+              checked={saveToLibrary}
+              onChange={(e) => setSaveToLibrary(e.target.checked)}
+              disabled={isRunning}
+            />
+            Save results to the library
+          </label>
+          <div className="flex gap-2">
+            {isRunning ? (
+              <button
+                onClick={cancelBatch}
+                className="flex-1 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 bg-red-900/40 hover:bg-red-900/60 text-red-200 border border-red-800"
+              >
+                <Square size={14} className="fill-current" /> Cancel batch
+              </button>
+            ) : (
+              <button
+                onClick={startBatch}
+                disabled={disabled || !input.trim()}
+                className="flex-1 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play size={14} /> Queue & run
+              </button>
+            )}
+            <button
+              onClick={downloadZip}
+              disabled={finishedJobs.length === 0 || isZipping}
+              className="px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isZipping ? <RefreshCw size={14} className="animate-spin" /> : <Download size={14} />} Zip
+            </button>
+            <button
+              onClick={clearJobs}
+              disabled={isRunning || jobs.length === 0}
+              title="Clear finished jobs"
+              className="px-3 py-2 rounded-lg text-zinc-500 hover:text-red-400 disabled:opacity-50"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {jobs.length > 0 && (
+        <div className="space-y-2">
+          {jobs.map((job) => (
+            <div key={job.id} className="flex items-center gap-3 p-3 rounded-xl bg-zinc-950/50 border border-zinc-800/50 text-sm">
+              {job.status.step === 'idle' && <Clock size={14} className="text-zinc-500" />}
+              {(job.status.step === 'script' || job.status.step === 'video' || job.status.step === 'audio') && (
+                <RefreshCw size={14} className="text-purple-400 animate-spin" />
+              )}
+              {job.status.step === 'complete' && <Check size={14} className="text-green-400" />}
+              {job.status.step === 'error' && <AlertCircle size={14} className="text-red-400" />}
+              <span className="flex-1 truncate text-zinc-200">{job.idea}</span>
+              <span className="text-xs text-zinc-600">{job.aspectRatio} · {job.voice}</span>
+              <span className={`text-xs w-64 truncate text-right ${job.status.step === 'error' ? 'text-red-400' : 'text-zinc-500'}`}>
+                {job.status.error || job.status.message}
+                {job.status.step === 'video' && renders[batchScope(job.id)] && ` ${describeStageDetail(renders[batchScope(job.id)]) || ''}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { MessagesSquare, Plus, Trash2, Mic, RefreshCw } from 'lucide-react';
+import { DialogueLine, Scene, VoiceName } from '../types';
+
+interface DialogueEditorProps {
+  scene: Scene;
+  cast: Record<string, VoiceName>;
+  lineGap: number;
+  busy: boolean;
+  onLinesChange: (lines: DialogueLine[]) => void;
+  onCastChange: (speaker: string, voice: VoiceName) => void;
+  onGapChange: (gap: number) => void;
+  onRecord: () => void;
+}
+
+const linkButton = 'text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500';
+const field = 'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none disabled:opacity-50';
+
+export const DialogueEditor: React.FC<DialogueEditorProps> = ({
+  scene,
+  cast,
+  lineGap,
+  busy,
+  onLinesChange,
+  onCastChange,
+  onGapChange,
+  onRecord,
+}) => {
+  const lines = scene.lines || [];
+  const speakers = Object.keys(cast);
+  const isRecording = scene.status.step === 'audio';
+
+  const updateLine = (index: number, patch: Partial<DialogueLine>) => {
+    onLinesChange(lines.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const addLine = () => {
+    // Alternate speakers by default, which is what most exchanges do
+    const last = lines[lines.length - 1]?.speaker;
+    const speaker = speakers.find((s) => s !== last) || last || 'Speaker';
+    onLinesChange([...lines, { speaker, text: '' }]);
+  };
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <MessagesSquare className="w-4 h-4" /> Dialogue
+        </h3>
+        <button onClick={onRecord} disabled={busy} className={linkButton}>
+          {isRecording ? <RefreshCw size={14} className="animate-spin" /> : <Mic size={14} />} Record lines
+        </button>
+      </div>
+
+      {/* Lines */}
+      <datalist id="dialogue-speakers">
+        {speakers.map((speaker) => <option key={speaker} value={speaker} />)}
+      </datalist>
+      <div className="space-y-2">
+        {lines.map((line, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              value={line.speaker}
+              onChange={(e) => updateLine(index, { speaker: e.target.value })}
+              list="dialogue-speakers"
+              disabled={busy}
+              className={`${field} w-24 shrink-0`}
+            />
+            <input
+              value={line.text}
+              onChange={(e) => updateLine(index, { text: e.target.value })}
+              disabled={busy}
+              className={`${field} flex-1`}
+            />
+            <button
+              onClick={() => onLinesChange(lines.filter((_, i) => i !== index))}
+              disabled={busy}
+              title="Remove line"
+              className="p-1 text-zinc-500 hover:text-red-400 disabled:opacity-30"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+        <button onClick={addLine} disabled={busy} className={linkButton}>
+          <Plus size={14} /> Add line
+        </button>
+      </div>
+
+      {/* Cast */}
+      <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-zinc-800/50">
+        {speakers.map((speaker) => (
+          <label key={speaker} className="text-xs text-zinc-400 flex items-center gap-2">
+            {speaker}
+            <select
+              value={cast[speaker]}
+              onChange={(e) => onCastChange(speaker, e.target.value as VoiceName)}
+              disabled={busy}
+              className={field}
+            >
+              {Object.values(VoiceName).map((v) => (
+                <option key={v} value={v}>{v}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="text-xs text-zinc-400 flex items-center gap-2 ml-auto">
+          Gap {lineGap.toFixed(2)}s
+          <input
+            type="range"
+            min={0}
+            max={1.5}
+            step={0.05}
+            value={lineGap}
+            onChange={(e) => onGapChange(Number(e.target.value))}
+            disabled={busy}
+            className="w-24 accent-purple-500"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from 'react';
+import { VideoEffects } from '../types';
+import { createEffectRenderer, fadeLevel, EffectRenderer } from '../services/videoEffects';
+
+interface EffectsCanvasProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  effects: VideoEffects;
+  clipStart: number; // where the playing clip starts in the movie, for the fades
+  duration: number; // whole movie
+}
+
+// Live preview of the video effects: the player's video drawn through the WebGL pipeline
+// on a canvas laid over it. Where WebGL2 is missing or the pipeline fails to build, the
+// canvas stays hidden and the plain video shows through.
+export const EffectsCanvas: React.FC<EffectsCanvasProps> = ({ videoRef, effects, clipStart, duration }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const latestRef = useRef({ effects, clipStart, duration });
+  latestRef.current = { effects, clipStart, duration };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let renderer: EffectRenderer | null = null;
+    try {
+      renderer = createEffectRenderer(canvas);
+    } catch (err) {
+      // A shader that fails to compile or link leaves the canvas hidden over the plain video
+      console.error(err);
+    }
+    if (!renderer) return;
+    const active = renderer;
+    canvas.hidden = false;
+
+    let handle = 0;
+    const tick = () => {
+      const video = videoRef.current;
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        const { effects, clipStart, duration } = latestRef.current;
+        active.render(video, effects, fadeLevel(effects, clipStart + video.currentTime, duration));
+      }
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(handle);
+      active.dispose();
+    };
+  }, []);
+
+  return <canvas ref={canvasRef} hidden className="absolute inset-0 w-full h-full object-cover pointer-events-none" />;
+};
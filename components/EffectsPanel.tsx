@@ -0,0 +1,133 @@
+import React, { useRef, useState } from 'react';
+import { SlidersHorizontal, Upload, RotateCcw } from 'lucide-react';
+import { VideoEffects } from '../types';
+import { LOOKS, parseCubeLut } from '../services/colorLut';
+import { DEFAULT_EFFECTS, LETTERBOX_RATIOS } from '../services/videoEffects';
+
+interface EffectsPanelProps {
+  effects: VideoEffects;
+  busy: boolean;
+  onChange: (patch: Partial<VideoEffects>) => void;
+}
+
+const linkButton = 'text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500';
+const field = 'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none disabled:opacity-50';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, disabled, onChange }) => (
+  <label className="block text-xs text-zinc-400">
+    {label}: {format(value)}
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      disabled={disabled}
+      className="w-full mt-1 accent-purple-500 disabled:opacity-50"
+    />
+  </label>
+);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const signed = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value * 100)}`;
+const seconds = (value: number) => `${value.toFixed(1)}s`;
+
+// Colour grade and picture effects over the whole movie, previewed live in the player
+export const EffectsPanel: React.FC<EffectsPanelProps> = ({ effects, busy, onChange }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const look = LOOKS.find((l) => l.label === effects.lut?.name)?.id ?? (effects.lut ? 'imported' : '');
+
+  const selectLook = (id: string) => {
+    setError(null);
+    if (id === 'imported') return;
+    onChange({ lut: LOOKS.find((l) => l.id === id)?.build() || null });
+  };
+
+  const importLut = async (file: File) => {
+    setError(null);
+    try {
+      onChange({ lut: parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, '')) });
+    } catch (err: any) {
+      setError(err.message || 'Could not read the LUT.');
+    }
+  };
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" /> Look & Effects
+        </h3>
+        <button onClick={() => onChange(DEFAULT_EFFECTS)} disabled={busy} className={linkButton}>
+          <RotateCcw size={14} /> Reset
+        </button>
+      </div>
+
+      {/* Colour grade */}
+      <div className="flex flex-wrap items-center gap-3">
+        <select value={look} onChange={(e) => selectLook(e.target.value)} disabled={busy} className={field}>
+          <option value="">No grade</option>
+          {LOOKS.map((l) => (
+            <option key={l.id} value={l.id}>{l.label}</option>
+          ))}
+          {look === 'imported' && <option value="imported">{effects.lut!.name}</option>}
+        </select>
+        <button onClick={() => fileRef.current?.click()} disabled={busy} className={linkButton}>
+          <Upload size={14} /> Import .cube
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".cube"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importLut(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="grid grid-cols-2 gap-4">
+        <Slider label="Grade strength" value={effects.lutStrength} min={0} max={1} step={0.05} format={percent} disabled={busy || !effects.lut} onChange={(lutStrength) => onChange({ lutStrength })} />
+        <Slider label="Brightness" value={effects.brightness} min={-1} max={1} step={0.05} format={signed} disabled={busy} onChange={(brightness) => onChange({ brightness })} />
+        <Slider label="Contrast" value={effects.contrast} min={-1} max={1} step={0.05} format={signed} disabled={busy} onChange={(contrast) => onChange({ contrast })} />
+        <Slider label="Saturation" value={effects.saturation} min={-1} max={1} step={0.05} format={signed} disabled={busy} onChange={(saturation) => onChange({ saturation })} />
+        <Slider label="Vignette" value={effects.vignette} min={0} max={1} step={0.05} format={percent} disabled={busy} onChange={(vignette) => onChange({ vignette })} />
+        <Slider label="Film grain" value={effects.grain} min={0} max={1} step={0.05} format={percent} disabled={busy} onChange={(grain) => onChange({ grain })} />
+        <Slider label="Fade in" value={effects.fadeIn} min={0} max={5} step={0.1} format={seconds} disabled={busy} onChange={(fadeIn) => onChange({ fadeIn })} />
+        <Slider label="Fade out" value={effects.fadeOut} min={0} max={5} step={0.1} format={seconds} disabled={busy} onChange={(fadeOut) => onChange({ fadeOut })} />
+      </div>
+
+      <label className="text-xs text-zinc-400 flex items-center gap-2">
+        Letterbox
+        <select
+          value={effects.letterbox}
+          onChange={(e) => onChange({ letterbox: Number(e.target.value) })}
+          disabled={busy}
+          className={field}
+        >
+          <option value={0}>Off</option>
+          {LETTERBOX_RATIOS.map((ratio) => (
+            <option key={ratio} value={ratio}>{ratio.toFixed(2)}:1</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
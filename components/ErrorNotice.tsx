@@ -0,0 +1,45 @@
+import React from 'react';
+import { AlertCircle, Key, RotateCcw, PencilLine } from 'lucide-react';
+import { GenerationStatus } from '../types';
+import { ERROR_GUIDE, RecoveryAction } from '../services/errors';
+
+interface ErrorNoticeProps {
+  status: GenerationStatus;
+  onRecover: (action: RecoveryAction) => void;
+  canRetry: boolean;
+}
+
+const RECOVERY_LABELS: Record<RecoveryAction, { label: string; icon: React.ReactNode }> = {
+  'select-key': { label: 'Re-select API key', icon: <Key size={14} /> },
+  retry: { label: 'Retry', icon: <RotateCcw size={14} /> },
+  'edit-prompt': { label: 'Edit prompt', icon: <PencilLine size={14} /> },
+};
+
+// A failed job: what went wrong, why, and the one action most likely to fix it
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ status, onRecover, canRetry }) => {
+  const guide = status.errorKind ? ERROR_GUIDE[status.errorKind] : null;
+  const recovery = guide?.recovery === 'retry' && !canRetry ? null : guide?.recovery;
+
+  return (
+    <div className="p-4 rounded-xl flex items-start gap-3 text-sm bg-red-900/20 text-red-300 border border-red-800 animate-in fade-in slide-in-from-top-2 duration-300">
+      <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="font-medium">{guide && status.errorKind !== 'unknown' ? guide.title : status.error}</p>
+        {guide && status.errorKind !== 'unknown' && status.errorKind !== 'cancelled' && (
+          <>
+            <p className="text-xs text-red-300/80">{guide.explanation}</p>
+            <p className="text-xs text-red-300/50 truncate" title={status.error}>{status.error}</p>
+          </>
+        )}
+      </div>
+      {recovery && (
+        <button
+          onClick={() => onRecover(recovery)}
+          className="text-xs flex items-center gap-1 px-2 py-1 rounded-lg bg-red-900/40 hover:bg-red-800/60 text-red-100 shrink-0"
+        >
+          {RECOVERY_LABELS[recovery].icon} {RECOVERY_LABELS[recovery].label}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState, useMemo } from 'react';
+import { Download, RefreshCw, AlertCircle, Captions } from 'lucide-react';
+import { MovieData } from '../types';
+import { exportMovie, downloadBlob, getSupportedExportFormats, ExportFormat } from '../services/exportService';
+import { buildMovieCues, formatSrt, formatVtt } from '../services/subtitles';
+
+interface ExportPanelProps {
+  movie: MovieData;
+  disabled?: boolean;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ movie, disabled }) => {
+  const formats = useMemo(() => getSupportedExportFormats(), []);
+  const [format, setFormat] = useState<ExportFormat>(formats[0] || 'webm');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    setError(null);
+    setWarning(null);
+    setProgress(0);
+    try {
+      const blob = await exportMovie(movie, { format, onProgress: setProgress, onWarning: setWarning });
+      downloadBlob(blob, `cinegen_movie_${movie.id}.${format}`);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Export failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleSubtitles = async (kind: 'srt' | 'vtt') => {
+    setError(null);
+    try {
+      const cues = await buildMovieCues(movie);
+      const text = kind === 'srt' ? formatSrt(cues) : formatVtt(cues);
+      const type = kind === 'srt' ? 'application/x-subrip' : 'text/vtt';
+      downloadBlob(new Blob([text], { type }), `cinegen_subtitles_${movie.id}.${kind}`);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to build subtitles.');
+    }
+  };
+
+  const subtitleButtons = (
+    <>
+      <button
+        onClick={() => handleSubtitles('srt')}
+        disabled={disabled}
+        className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+      >
+        <Captions size={14} /> SRT
+      </button>
+      <button
+        onClick={() => handleSubtitles('vtt')}
+        disabled={disabled}
+        className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+      >
+        <Captions size={14} /> VTT
+      </button>
+    </>
+  );
+
+  if (formats.length === 0) {
+    return (
+      <div className="flex items-center gap-3">
+        <p className="text-xs text-zinc-500 flex items-center gap-1">
+          <AlertCircle size={14} /> This browser cannot record video exports.
+        </p>
+        {subtitleButtons}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          disabled={isExporting}
+          className="bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none"
+        >
+          {formats.map((f) => (
+            <option key={f} value={f}>{f.toUpperCase()}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={disabled || isExporting}
+          className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+        >
+          {isExporting ? (
+            <><RefreshCw size={14} className="animate-spin" /> Exporting {Math.round(progress * 100)}%</>
+          ) : (
+            <><Download size={14} /> Export Movie</>
+          )}
+        </button>
+        {subtitleButtons}
+      </div>
+      {isExporting && (
+        <div className="h-1 w-full bg-zinc-800 rounded-full overflow-hidden">
+          <div className="h-full bg-purple-500 transition-all" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+      {warning && <p className="text-xs text-amber-400">{warning}</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
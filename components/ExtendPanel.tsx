@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { MoveRight, RefreshCw } from 'lucide-react';
+
+interface ExtendPanelProps {
+  shotLength: number; // seconds filmed so far, extensions included
+  clipLength: number; // seconds each extension adds
+  extensions: number;
+  busy: boolean;
+  onExtend: (targetSeconds: number, direction: string) => void;
+}
+
+const field = 'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none disabled:opacity-50';
+
+// Continues the selected shot from its last frame until it reaches a target length
+export const ExtendPanel: React.FC<ExtendPanelProps> = ({ shotLength, clipLength, extensions, busy, onExtend }) => {
+  const [target, setTarget] = useState(Math.round(shotLength + clipLength));
+  const [direction, setDirection] = useState('');
+
+  useEffect(() => setTarget(Math.round(shotLength + clipLength)), [shotLength, clipLength]);
+
+  const clipsNeeded = Math.max(0, Math.ceil((target - shotLength) / clipLength));
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <MoveRight className="w-4 h-4" /> Extend Shot
+        </h3>
+        <span className="text-xs text-zinc-500">
+          {shotLength.toFixed(1)}s{extensions > 0 && ` · ${extensions} ${extensions === 1 ? 'extension' : 'extensions'}`}
+        </span>
+      </div>
+
+      <input
+        value={direction}
+        onChange={(e) => setDirection(e.target.value)}
+        disabled={busy}
+        placeholder="What happens next (optional), e.g. the camera pulls back to reveal the city"
+        className={`${field} w-full`}
+      />
+
+      <div className="flex items-center gap-3">
+        <label className="text-xs text-zinc-500 flex items-center gap-2">
+          Target length
+          <input
+            type="number"
+            min={Math.ceil(shotLength) + 1}
+            step={1}
+            value={target}
+            onChange={(e) => setTarget(Number(e.target.value))}
+            disabled={busy}
+            className={`${field} w-16`}
+          />
+          s
+        </label>
+        <button
+          onClick={() => onExtend(target, direction)}
+          disabled={busy || clipsNeeded === 0}
+          className="ml-auto text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+        >
+          {busy ? <RefreshCw size={14} className="animate-spin" /> : <MoveRight size={14} />}
+          Extend{clipsNeeded > 0 && ` (${clipsNeeded} ${clipsNeeded === 1 ? 'clip' : 'clips'})`}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { FolderOpen, Copy, Trash2, Pencil, Check, X, Library as LibraryIcon } from 'lucide-react';
+import { StoredMovie, listMovies, renameMovie, duplicateMovie, deleteMovie } from '../services/libraryStore';
+import { GenerationStatus } from '../types';
+import { ErrorNotice } from './ErrorNotice';
+
+interface LibraryProps {
+  currentMovieId: string | null;
+  refreshKey: number;
+  onOpen: (id: string) => void;
+  onRenamed: (id: string, title: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+// Poster for a library card: the chosen poster frame (or the first clip's first frame),
+// swapped for the animated preview on hover when one was rendered
+const LibraryPoster: React.FC<{ movie: StoredMovie }> = ({ movie }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [hovered, setHovered] = useState(false);
+
+  useEffect(() => {
+    const scene = movie.scenes.find((s) => s.id === movie.poster?.sceneId && s.video) || movie.scenes.find((s) => s.video);
+    if (!scene?.video) return;
+    const objectUrl = URL.createObjectURL(scene.video);
+    // A media fragment opens the clip paused on the poster frame
+    const time = scene.id === movie.poster?.sceneId ? movie.poster.time : 0;
+    setUrl(time > 0 ? `${objectUrl}#t=${time}` : objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [movie]);
+
+  useEffect(() => {
+    if (!movie.preview) return setPreviewUrl(null);
+    const objectUrl = URL.createObjectURL(movie.preview);
+    setPreviewUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [movie]);
+
+  return (
+    <div
+      className="aspect-video bg-black rounded-lg overflow-hidden"
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+    >
+      {hovered && previewUrl ? (
+        <img src={previewUrl} alt="" className="w-full h-full object-cover" />
+      ) : (
+        url && <video src={url} preload="metadata" muted className="w-full h-full object-cover" />
+      )}
+    </div>
+  );
+};
+
+export const Library: React.FC<LibraryProps> = ({ currentMovieId, refreshKey, onOpen, onRenamed, onDeleted }) => {
+  const [movies, setMovies] = useState<StoredMovie[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [error, setError] = useState<GenerationStatus | null>(null);
+
+  const reload = async () => {
+    try {
+      setMovies(await listMovies());
+    } catch (e) {
+      console.error('Failed to load library', e);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [refreshKey]);
+
+  // Storage failures (quota, blocked transaction) are shown on the library rather than lost
+  const failed = (action: string, e: any) => {
+    console.error(`Failed to ${action}`, e);
+    setError({ step: 'error', error: `Could not ${action}: ${e?.message || e}`, errorKind: 'unknown' });
+  };
+
+  const startRename = (movie: StoredMovie) => {
+    setEditingId(movie.id);
+    setDraftTitle(movie.title);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const title = draftTitle.trim();
+    setError(null);
+    try {
+      if (title) {
+        await renameMovie(editingId, title);
+        onRenamed(editingId, title);
+      }
+    } catch (e) {
+      failed('rename the project', e);
+    }
+    setEditingId(null);
+    reload();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    setError(null);
+    try {
+      await duplicateMovie(id);
+    } catch (e) {
+      failed('duplicate the project', e);
+    }
+    reload();
+  };
+
+  const handleDelete = async (movie: StoredMovie) => {
+    if (!window.confirm(`Delete "${movie.title}" from the library?`)) return;
+    setError(null);
+    try {
+      await deleteMovie(movie.id);
+      onDeleted(movie.id);
+    } catch (e) {
+      failed('delete the project', e);
+    }
+    reload();
+  };
+
+  if (movies.length === 0) return null;
+
+  return (
+    <div className="mt-12 bg-zinc-900/50 p-8 rounded-3xl border border-zinc-800 backdrop-blur-xl shadow-xl">
+      <h2 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider mb-6 flex items-center gap-2">
+        <LibraryIcon className="w-4 h-4" /> Library · {movies.length}
+      </h2>
+
+      {error && (
+        <div className="mb-6">
+          <ErrorNotice status={error} onRecover={() => setError(null)} canRetry={false} />
+        </div>
+      )}
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {movies.map((movie) => (
+          <div
+            key={movie.id}
+            className={`p-3 rounded-xl border space-y-3 ${
+              movie.id === currentMovieId ? 'bg-zinc-800/80 border-purple-500/50' : 'bg-zinc-950/50 border-zinc-800/50'
+            }`}
+          >
+            <LibraryPoster movie={movie} />
+
+            {editingId === movie.id ? (
+              <div className="flex items-center gap-1">
+                <input
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  autoFocus
+                  className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-100 focus:outline-none"
+                />
+                <button onClick={commitRename} title="Save" className="p-1 text-zinc-500 hover:text-green-400">
+                  <Check size={14} />
+                </button>
+                <button onClick={() => setEditingId(null)} title="Cancel" className="p-1 text-zinc-500 hover:text-white">
+                  <X size={14} />
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm font-medium text-zinc-200 truncate" title={movie.idea}>{movie.title}</p>
+            )}
+
+            <p className="text-xs text-zinc-500">
+              {movie.scenes.length} {movie.scenes.length === 1 ? 'scene' : 'scenes'} · {movie.aspectRatio} · {movie.voice}
+              <br />
+              {new Date(movie.updatedAt).toLocaleString()}
+            </p>
+
+            <div className="flex gap-1">
+              <button onClick={() => onOpen(movie.id)} title="Open" className="p-1 text-zinc-500 hover:text-white">
+                <FolderOpen size={14} />
+              </button>
+              <button onClick={() => startRename(movie)} title="Rename" className="p-1 text-zinc-500 hover:text-white">
+                <Pencil size={14} />
+              </button>
+              <button onClick={() => handleDuplicate(movie.id)} title="Duplicate" className="p-1 text-zinc-500 hover:text-white">
+                <Copy size={14} />
+              </button>
+              <button onClick={() => handleDelete(movie)} title="Delete" className="p-1 text-zinc-500 hover:text-red-400">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
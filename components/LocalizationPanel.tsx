@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Languages, RefreshCw, Trash2 } from 'lucide-react';
+import { LanguageTrack, VoiceName } from '../types';
+import { LANGUAGES } from '../services/scriptTemplates';
+
+interface LocalizationPanelProps {
+  tracks: LanguageTrack[];
+  activeLanguage: string | null;
+  defaultVoice: VoiceName;
+  busy: boolean;
+  onLocalize: (languages: string[], voice: VoiceName) => void;
+  onSelect: (language: string | null) => void;
+  onDelete: (language: string) => void;
+}
+
+const field = 'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none disabled:opacity-50';
+
+// Translated, re-voiced narration tracks; the selected one plays and exports over the same clips
+export const LocalizationPanel: React.FC<LocalizationPanelProps> = ({
+  tracks,
+  activeLanguage,
+  defaultVoice,
+  busy,
+  onLocalize,
+  onSelect,
+  onDelete,
+}) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [voice, setVoice] = useState<VoiceName>(defaultVoice);
+
+  const toggle = (language: string) =>
+    setSelected((prev) => (prev.includes(language) ? prev.filter((l) => l !== language) : [...prev, language]));
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <Languages className="w-4 h-4" /> Languages
+        </h3>
+        <select
+          value={activeLanguage || ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          disabled={tracks.length === 0}
+          className={field}
+          aria-label="Language track"
+        >
+          <option value="">Original</option>
+          {tracks.map((track) => (
+            <option key={track.language} value={track.language}>{track.language}</option>
+          ))}
+        </select>
+      </div>
+
+      {tracks.length > 0 && (
+        <ul className="space-y-1">
+          {tracks.map((track) => (
+            <li key={track.language} className="flex items-center gap-2 text-xs text-zinc-400">
+              <span className={track.language === activeLanguage ? 'text-purple-300' : ''}>{track.language}</span>
+              <span className="text-zinc-600">{track.voice} · {track.scenes.filter((s) => s.audioBuffer).length} scenes</span>
+              <button
+                onClick={() => onDelete(track.language)}
+                disabled={busy}
+                title={`Delete the ${track.language} track`}
+                className="ml-auto p-1 text-zinc-600 hover:text-red-400 disabled:opacity-50"
+              >
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {LANGUAGES.map((language) => (
+          <label key={language} className="flex items-center gap-1 text-xs text-zinc-400">
+            <input
+              type="checkbox"
+              checked={selected.includes(language)}
+              onChange={() => toggle(language)}
+              disabled={busy}
+              className="accent-purple-500"
+            />
+            {language}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <select value={voice} onChange={(e) => setVoice(e.target.value as VoiceName)} disabled={busy} className={field} aria-label="Narrator voice">
+          {Object.values(VoiceName).map((v) => (
+            <option key={v} value={v}>{v}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onLocalize(selected, voice)}
+          disabled={busy || selected.length === 0}
+          className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+        >
+          {busy ? <RefreshCw size={14} className="animate-spin" /> : <Languages size={14} />}
+          Translate & voice{selected.length > 1 ? ` ${selected.length} languages` : ''}
+        </button>
+      </div>
+    </div>
+  );
+};
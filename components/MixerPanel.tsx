@@ -0,0 +1,141 @@
+import React, { useRef } from 'react';
+import { Music, Upload, Sparkles, Trash2, Download, RefreshCw } from 'lucide-react';
+import { MixSettings, MusicBed } from '../types';
+
+interface MixerPanelProps {
+  music: MusicBed | null;
+  mix: MixSettings;
+  rendering: boolean;
+  busy: boolean;
+  canDownload: boolean;
+  onMixChange: (patch: Partial<MixSettings>) => void;
+  onUploadMusic: (file: File) => void;
+  onGenerateAmbient: () => void;
+  onRemoveMusic: () => void;
+  onDownloadMix: () => void;
+}
+
+const linkButton = 'text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, disabled, onChange }) => (
+  <label className="block text-xs text-zinc-400">
+    {label}: {format(value)}
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      disabled={disabled}
+      className="w-full mt-1 accent-purple-500 disabled:opacity-50"
+    />
+  </label>
+);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const seconds = (value: number) => `${value.toFixed(1)}s`;
+
+export const MixerPanel: React.FC<MixerPanelProps> = ({
+  music,
+  mix,
+  rendering,
+  busy,
+  canDownload,
+  onMixChange,
+  onUploadMusic,
+  onGenerateAmbient,
+  onRemoveMusic,
+  onDownloadMix,
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <Music className="w-4 h-4" /> Soundtrack
+        </h3>
+        <button onClick={onDownloadMix} disabled={!canDownload || rendering} className={linkButton}>
+          {rendering ? <RefreshCw size={14} className="animate-spin" /> : <Download size={14} />} Mix WAV
+        </button>
+      </div>
+
+      {/* Music bed */}
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs text-zinc-300 truncate max-w-[12rem]">
+          {music ? `${music.name} · ${music.buffer.duration.toFixed(1)}s` : 'No music'}
+        </span>
+        <div className="flex items-center gap-3 ml-auto">
+          <button onClick={() => fileRef.current?.click()} disabled={busy} className={linkButton}>
+            <Upload size={14} /> Upload
+          </button>
+          <button onClick={onGenerateAmbient} disabled={busy} className={linkButton}>
+            <Sparkles size={14} /> Ambient
+          </button>
+          {music && (
+            <button onClick={onRemoveMusic} disabled={busy} className={linkButton}>
+              <Trash2 size={14} /> Remove
+            </button>
+          )}
+        </div>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onUploadMusic(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {/* Levels */}
+      <div className="grid grid-cols-2 gap-4">
+        <Slider label="Narration" value={mix.narrationVolume} min={0} max={1} step={0.05} format={percent} onChange={(narrationVolume) => onMixChange({ narrationVolume })} />
+        <Slider label="Music" value={mix.musicVolume} min={0} max={1} step={0.05} format={percent} disabled={!music} onChange={(musicVolume) => onMixChange({ musicVolume })} />
+        <Slider label="Fade in" value={mix.fadeIn} min={0} max={5} step={0.1} format={seconds} onChange={(fadeIn) => onMixChange({ fadeIn })} />
+        <Slider label="Fade out" value={mix.fadeOut} min={0} max={5} step={0.1} format={seconds} onChange={(fadeOut) => onMixChange({ fadeOut })} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="text-xs text-zinc-400 flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={mix.ducking}
+            onChange={(e) => onMixChange({ ducking: e.target.checked })}
+            disabled={!music}
+            className="accent-purple-500"
+          />
+          Duck music under narration
+        </label>
+        <label className="text-xs text-zinc-400 flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={mix.limiter}
+            onChange={(e) => onMixChange({ limiter: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Limiter
+        </label>
+      </div>
+
+      {mix.ducking && music && (
+        <Slider label="Ducked music level" value={mix.duckLevel} min={0} max={1} step={0.05} format={percent} onChange={(duckLevel) => onMixChange({ duckLevel })} />
+      )}
+    </div>
+  );
+};
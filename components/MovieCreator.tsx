@@ -1,43 +1,187 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Film, Clapperboard, Sparkles, Wand2, RefreshCw, AlertCircle, Download, Volume2, VolumeX } from 'lucide-react';
-import { AspectRatio, VoiceName, GenerationStatus, MovieData } from '../types';
-import * as geminiService from '../services/geminiService';
-import { audioBufferToWav } from '../services/audioUtils';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Play, Pause, Film, Clapperboard, Sparkles, Wand2, AlertCircle, Volume2, VolumeX, LayoutList, Square, Captions, CaptionsOff, MessagesSquare } from 'lucide-react';
+import { AspectRatio, VoiceName, GenerationStatus, MovieData, Scene, MixSettings, VideoEffects, OverlayKind, OverlayLayer, ScriptMode, ScriptOptions, DialogueLine, VideoRequest, VideoSettings, Take, VoiceSource, PipelineStage } from '../types';
+import { getProvider } from '../services/providers';
+import { SceneList } from './SceneList';
+import { ExportPanel } from './ExportPanel';
+import { Library } from './Library';
+import { BatchQueue } from './BatchQueue';
+import { TransportBar } from './TransportBar';
+import { NarrationTimingPanel } from './NarrationTimingPanel';
+import { MixerPanel } from './MixerPanel';
+import { DialogueEditor } from './DialogueEditor';
+import { ScriptEditor } from './ScriptEditor';
+import { ScriptOptionsForm } from './ScriptOptionsForm';
+import { VideoSettingsForm } from './VideoSettingsForm';
+import { TakesGrid } from './TakesGrid';
+import { UsagePanel } from './UsagePanel';
+import { ShotBuilder } from './ShotBuilder';
+import { VoiceoverPanel } from './VoiceoverPanel';
+import { LocalizationPanel } from './LocalizationPanel';
+import { ExtendPanel } from './ExtendPanel';
+import { PosterPanel } from './PosterPanel';
+import { EffectsPanel } from './EffectsPanel';
+import { EffectsCanvas } from './EffectsCanvas';
+import { OverlayEditor } from './OverlayEditor';
+import { OverlayCanvas } from './OverlayCanvas';
+import { usePlayback } from '../hooks/usePlayback';
+import * as libraryStore from '../services/libraryStore';
+import { createMovie } from '../services/movieUtils';
+import { buildCaptionCues, findActiveCue } from '../services/subtitles';
+import { getAudioContext, trimSilence, audioBufferToWav } from '../services/audioUtils';
+import { renderMix, decodeMusicFile, createAmbientBed } from '../services/audioMixer';
+import { downloadBlob } from '../services/exportService';
+import { fitNarrationToVideo, FitMode } from '../services/narrationTiming';
+import { assignVoices, listSpeakers, joinDialogue, recordSceneAudio } from '../services/dialogue';
+import { loadScriptTemplate } from '../services/scriptTemplates';
+import { buildVideoRequest, toRender, clipDurationFor, DEFAULT_VIDEO_SETTINGS } from '../services/videoSettings';
+import { withUsageTracking, checkBudget, estimateScriptCost, estimateFilmingCost, estimateLocalizationCost } from '../services/usageLedger';
+import { buildTakeRequests, createTakeId, putClipInUse, promoteTake, discardTake, revokeSceneUrls } from '../services/takes';
+import { isAbortError, listPendingOperations, trackOperation, untrackOperation, PendingOperation } from '../services/operationManager';
+import { toErrorStatus, RecoveryAction } from '../services/errors';
+import { ErrorNotice } from './ErrorNotice';
+import { StageChecklist } from './StageChecklist';
+import { reporterFor, trackStage, SCRIPT_SCOPE } from '../services/progress';
+import { decodeVoiceover, hasCustomVoice } from '../services/voiceover';
+import { applyLanguageTrack, buildLanguageTrack, replaceLanguageTrack } from '../services/localization';
+import { captureFrame } from '../services/frames';
+import { resolvePoster } from '../services/thumbnails';
+import { hasEffects } from '../services/videoEffects';
+import { createOverlay } from '../services/overlays';
+import { findShotHead, listShot, measureShot, createExtension, insertSceneAfter, moveShot, removeScene, EXTENSION_TOLERANCE } from '../services/extension';
+
+const MAX_SCENES = 6;
+// Quiet time after the last edit before the project is saved to the library
+const AUTOSAVE_DELAY = 1000;
+
+const provider = withUsageTracking(getProvider());
+
+// Whole-project jobs that the error notice can run again
+type RetryableJob = 'write' | 'rewrite' | 'film';
 
 export const MovieCreator: React.FC = () => {
   // Input State
   const [idea, setIdea] = useState('');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.Landscape);
   const [voice, setVoice] = useState<VoiceName>(VoiceName.Kore);
+  const [sceneCount, setSceneCount] = useState(1);
+  const [scriptMode, setScriptMode] = useState<ScriptMode>('narration');
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(DEFAULT_VIDEO_SETTINGS);
+  const [scriptOptions, setScriptOptions] = useState<ScriptOptions>(() => ({
+    style: 'cinematic',
+    tone: 'neutral',
+    language: 'English',
+    template: loadScriptTemplate() || undefined,
+  }));
   
   // App Logic State
   const [status, setStatus] = useState<GenerationStatus>({ step: 'idle' });
   const [movie, setMovie] = useState<MovieData | null>(null);
   const [apiKeyReady, setApiKeyReady] = useState(false);
+  const [libraryVersion, setLibraryVersion] = useState(0);
   
   // Playback State
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [soundtrack, setSoundtrack] = useState<AudioBuffer | null>(null);
+  const [mixing, setMixing] = useState(false);
+  const [language, setLanguage] = useState<string | null>(null);
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
+  // The movie as heard: the original, or the selected language track over the same clips
+  const activeLanguage = movie?.tracks.some((t) => t.language === language) ? language : null;
+  const presented = useMemo(() => movie && applyLanguageTrack(movie, activeLanguage), [movie, activeLanguage]);
+  const segments = useMemo(() => presented?.scenes || [], [presented?.scenes]);
+  const playback = usePlayback(segments, soundtrack);
+  const activeSceneId = playback.activeId;
+  const timelineKey = JSON.stringify(playback.timeline);
   
   // Refs
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const gainNodeRef = useRef<GainNode | null>(null);
+  const lastSavedRef = useRef<MovieData | null>(null);
+  const pendingSaveRef = useRef<Promise<unknown>>(Promise.resolve());
+  const jobRef = useRef<AbortController | null>(null);
+  const failedJobRef = useRef<RetryableJob | null>(null);
+  const ideaRef = useRef<HTMLTextAreaElement>(null);
+
+  const isGenerating = status.step === 'script' || status.step === 'video';
+  const sceneBusy = !!movie?.scenes.some((s) => s.status.step === 'video' || s.status.step === 'audio');
+  const isRunning = isGenerating || sceneBusy;
+  const activeScene = movie?.scenes.find((s) => s.id === activeSceneId) || null;
+  const heardScene = presented?.scenes.find((s) => s.id === activeSceneId) || null;
+  // Script written but nothing filmed yet: the storyboard is open for review
+  const reviewing = !!movie && movie.scenes.every((s) => !s.videoUrl && (s.status.step === 'idle' || s.status.step === 'error'));
+  // A shot runs from its first clip through the extensions filmed after it
+  const shotDuration = (id: string): number => {
+    const head = movie && findShotHead(movie.scenes, id);
+    if (!movie || !head) return 0;
+    return listShot(movie.scenes, head.id)
+      .reduce((sum, s) => sum + (playback.timeline.find((t) => t.id === s.id)?.duration || 0), 0);
+  };
+  const activeShot = movie && activeSceneId ? listShot(movie.scenes, findShotHead(movie.scenes, activeSceneId)?.id || '') : [];
+  const activeShotDuration = activeSceneId ? shotDuration(activeSceneId) : 0;
+  const activeClipDuration = playback.timeline.find((t) => t.id === activeSceneId)?.duration || 0;
+
+  // Captions for the scene on screen, timed against its narration (which starts with the clip)
+  const sceneCues = useMemo(
+    () => (heardScene?.audioBuffer ? buildCaptionCues(heardScene.narration, heardScene.audioBuffer, heardScene.audioOffset) : []),
+    [heardScene?.narration, heardScene?.audioBuffer, heardScene?.audioOffset]
+  );
+  const activeCue = showCaptions ? findActiveCue(sceneCues, playback.localTime) : null;
+
+  // Re-render the soundtrack mix whenever its inputs settle; the player picks it up live
+  useEffect(() => {
+    const timeline = playback.timeline;
+    if (!presented || timeline.length === 0 || timeline.some((t) => t.duration === 0)) {
+      setSoundtrack(null);
+      setMixing(false);
+      return;
+    }
+    let cancelled = false;
+    setMixing(true);
+    const handle = setTimeout(() => {
+      renderMix(presented, timeline)
+        .then((buffer) => !cancelled && setSoundtrack(buffer))
+        .catch((e) => console.error(e))
+        .finally(() => !cancelled && setMixing(false));
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(handle);
+    };
+  }, [presented?.scenes, movie?.music, movie?.mix, timelineKey]);
+
+  // The player's poster image, grabbed from the chosen poster frame
+  const posterFrame = movie ? resolvePoster(movie) : null;
+  const posterClip = posterFrame && movie?.scenes.find((s) => s.id === posterFrame.sceneId)?.videoUrl;
+  useEffect(() => {
+    if (!posterFrame || !posterClip) return setPosterUrl(null);
+    let url: string | null = null;
+    let cancelled = false;
+    captureFrame(posterClip, posterFrame.time, 'image/jpeg', 0.85)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPosterUrl(url);
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [posterClip, posterFrame?.time]);
 
   // Initial Check
   useEffect(() => {
     checkApiKey();
+    resumePendingOperations();
   }, []);
 
   const checkApiKey = async () => {
-    const ready = await geminiService.ensureApiKey();
+    const ready = await provider.ensureApiKey();
     setApiKeyReady(ready);
   };
 
   const handleSelectApiKey = async () => {
     try {
-      await geminiService.promptForApiKey();
+      await provider.promptForApiKey();
       // Assume success if no error, but recheck is safer
       setApiKeyReady(true);
     } catch (e) {
@@ -46,176 +190,652 @@ export const MovieCreator: React.FC = () => {
     }
   };
 
-  const generateMovie = async () => {
-    if (!idea.trim()) return;
-    
-    // Reset previous movie if exists
-    if (movie) {
-      URL.revokeObjectURL(movie.videoUrl);
-      setMovie(null);
+  // Error status for a failure; a rejected key also brings back the key prompt.
+  // job: what the error notice's Retry runs again
+  const failure = (err: any, job: RetryableJob | null = null): GenerationStatus => {
+    if (!isAbortError(err)) console.error(err);
+    const errorStatus = toErrorStatus(err);
+    if (errorStatus.errorKind === 'auth') setApiKeyReady(false);
+    failedJobRef.current = job;
+    return errorStatus;
+  };
+
+  // Checklist title and stages for a progress scope: the screenplay, a scene or a language track
+  const describeProgressScope = (scope: string): { title: string; stages: PipelineStage[] } => {
+    if (scope === SCRIPT_SCOPE) return { title: 'Screenplay', stages: ['script'] };
+    const index = movie?.scenes.findIndex((s) => s.id === scope) ?? -1;
+    if (index >= 0) return { title: `Scene ${index + 1}`, stages: ['video', 'download', 'speech', 'decode'] };
+    return { title: scope, stages: ['script', 'speech', 'decode'] };
+  };
+
+  const recoverFromError = (action: RecoveryAction) => {
+    if (action === 'select-key') {
+      handleSelectApiKey();
+    } else if (action === 'edit-prompt') {
+      // A blocked scene opens in the shot editor; a blocked script sends you back to the idea
+      const blocked = movie?.scenes.find((s) => s.status.errorKind === 'safety');
+      if (blocked) playback.select(blocked.id);
+      else ideaRef.current?.focus();
+    } else if (failedJobRef.current === 'write') {
+      writeScript();
+    } else if (failedJobRef.current === 'rewrite') {
+      regenerateScript();
+    } else if (failedJobRef.current === 'film') {
+      filmMovie();
     }
-    
-    setIsPlaying(false);
-    stopAudio();
+  };
+
+  const updateScene = (id: string, patch: Partial<Scene>) => {
+    setMovie((prev) => prev && {
+      ...prev,
+      scenes: prev.scenes.map((s) => (s.id === id ? { ...s, ...patch } : s)),
+    });
+  };
+
+  // Patch computed from the scene as it is now, for updates that land after an await
+  const updateSceneWith = (id: string, patch: (scene: Scene) => Partial<Scene>) => {
+    setMovie((prev) => prev && {
+      ...prev,
+      scenes: prev.scenes.map((s) => (s.id === id ? { ...s, ...patch(s) } : s)),
+    });
+  };
+
+  // Checks a job's estimated cost against the monthly budget before it is launched
+  const confirmBudget = (estimate: number): boolean => {
+    const verdict = checkBudget(estimate);
+    if (!verdict.allowed) {
+      setStatus({ step: 'error', error: verdict.message || 'Monthly budget exceeded.' });
+      return false;
+    }
+    return !verdict.message || window.confirm(verdict.message);
+  };
+
+  // Starts a cancellable job; the Action! button turns into Cancel while it runs
+  const startJob = (): AbortSignal => {
+    jobRef.current?.abort();
+    const controller = new AbortController();
+    jobRef.current = controller;
+    return controller.signal;
+  };
+
+  const cancelJob = () => {
+    jobRef.current?.abort();
+    jobRef.current = null;
+  };
+
+  // Films one scene: the takes and the voiceover run in parallel.
+  // Each Veo operation is recorded while it runs so a reload can resume it.
+  // The first finished take goes into use; the rest, and the clip it replaces, are kept as takes.
+  // When only the clip or only the voiceover fails, the half that finished is kept.
+  // A recorded or uploaded voiceover is kept as it is; an extension has no voiceover of its own.
+  // Pass a previous request to reproduce a clip exactly instead of using the current settings.
+  const renderScene = async (
+    scene: Scene,
+    target: MovieData,
+    signal: AbortSignal,
+    options: { request?: VideoRequest; takes?: number } = {}
+  ): Promise<Take> => {
+    const requests = buildTakeRequests(options.request || buildVideoRequest(scene, target), options.takes ?? target.video.takes);
+    updateScene(scene.id, {
+      status: { step: 'video', message: requests.length > 1 ? `Filming ${requests.length} takes & recording...` : 'Filming & recording...' },
+    });
 
+    const operations: string[] = [];
+    const onProgress = reporterFor(scene.id);
+    const filmTake = async (request: VideoRequest): Promise<Take> => {
+      const render = toRender(request, provider.id);
+      const videoUrl = await provider.generateVideo(request, {
+        signal,
+        onProgress,
+        onOperationStarted: (name) => {
+          operations.push(name);
+          const { startFrame, ...pending } = render;
+          trackOperation({ name, movieId: target.id, sceneId: scene.id, startedAt: Date.now(), render: pending });
+        },
+      });
+      return { id: createTakeId(), videoUrl, render };
+    };
+
+    let voiced = false;
     try {
-      // 1. Script
-      setStatus({ step: 'script', message: 'Writing the screenplay...' });
-      const script = await geminiService.generateScript(idea);
-      
-      // 2. Video & Audio (Parallel)
-      setStatus({ step: 'video', message: 'Filming on location (Veo) & Recording voiceover...' });
-      
-      // Use Promise.all for concurrency
-      const [videoUrl, audioBuffer] = await Promise.all([
-        geminiService.generateVideo(idea, aspectRatio),
-        geminiService.generateSpeech(script, voice)
+      const [results, [speech]] = await Promise.all([
+        Promise.allSettled(requests.map(filmTake)).then((settled) => {
+          if (!voiced) updateScene(scene.id, { status: { step: 'audio', message: 'Recording voiceover...' } });
+          return settled;
+        }),
+        Promise.allSettled([
+          scene.continues ? null
+            : hasCustomVoice(scene) && scene.audioBuffer ? scene.audioBuffer
+            : recordSceneAudio(scene, target, provider, { onProgress }),
+        ]).finally(() => { voiced = true; }),
       ]);
 
+      const takes = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+      const error = takes.length === 0
+        ? (results[0] as PromiseRejectedResult).reason
+        : speech.status === 'rejected' ? speech.reason : null;
+      const [chosen, ...alternates] = takes;
+      updateSceneWith(scene.id, (s) => ({
+        ...(chosen ? putClipInUse(s, chosen, alternates) : {}),
+        ...(speech.status === 'fulfilled' && speech.value ? { audioBuffer: speech.value } : {}),
+        status: error ? toErrorStatus(error) : { step: 'complete' },
+      }));
+      if (error) throw error;
+      return chosen;
+    } catch (err: any) {
+      updateScene(scene.id, { status: toErrorStatus(err) });
+      throw err;
+    } finally {
+      operations.forEach(untrackOperation);
+    }
+  };
+
+  // Collects Veo operations that were still rendering when the page was last closed
+  const resumePendingOperations = async () => {
+    const pending = listPendingOperations();
+    if (pending.length === 0) return;
+
+    // Show the movie of the most recent operation; others are written straight to the library
+    const latest = pending.reduce((a, b) => (b.startedAt > a.startedAt ? b : a));
+    const opened = await libraryStore.loadMovie(latest.movieId);
+    const signal = startJob();
+
+    if (opened) {
+      const resuming = new Set(pending.filter((op) => op.movieId === opened.id).map((op) => op.sceneId));
+      lastSavedRef.current = opened;
       setMovie({
-        id: Date.now().toString(),
-        script,
-        videoUrl,
-        audioBuffer,
-        aspectRatio
+        ...opened,
+        scenes: opened.scenes.map((s) => resuming.has(s.id)
+          ? { ...s, status: { step: 'video', message: 'Resuming render...' } }
+          : s),
       });
-      
-      setStatus({ step: 'complete', message: 'Movie ready!' });
+      playback.select(opened.scenes[0]?.id || null);
+      setIdea(opened.idea);
+      setAspectRatio(opened.aspectRatio);
+      setVoice(opened.voice);
+      setVideoSettings(opened.video);
+    }
 
-    } catch (err: any) {
-      console.error(err);
-      const msg = err.message || 'An unexpected error occurred.';
-      if (msg.includes('Requested entity was not found') || msg.includes('403') || msg.includes('401')) {
-         setStatus({ step: 'error', error: 'API Key Error. Please re-select your paid API key.' });
-         setApiKeyReady(false);
+    setStatus({ step: 'video', message: `Resuming ${pending.length} interrupted ${pending.length === 1 ? 'render' : 'renders'}...` });
+    const results = await Promise.allSettled(pending.map((op) => resumeOperation(op, opened, signal)));
+    const failed = results.filter((r) => r.status === 'rejected');
+
+    if (signal.aborted) {
+      setStatus(failure(signal.reason));
+    } else if (failed.length > 0) {
+      setStatus({ step: 'error', error: `${failed.length} interrupted ${failed.length === 1 ? 'render' : 'renders'} could not be recovered.` });
+    } else {
+      setStatus({ step: 'complete', message: 'Recovered interrupted renders.' });
+    }
+  };
+
+  const resumeOperation = async (op: PendingOperation, opened: MovieData | null, signal: AbortSignal) => {
+    const scene = opened?.id === op.movieId ? opened.scenes.find((s) => s.id === op.sceneId) : undefined;
+    try {
+      const onProgress = reporterFor(op.sceneId);
+      const videoUrl = await provider.resumeVideo(op.name, { signal, startedAt: op.startedAt, onProgress });
+
+      if (opened && scene) {
+        // Narration may not have finished before the reload either; the clip is kept even if it fails.
+        // Extensions have no narration of their own.
+        const [speech] = await Promise.allSettled([
+          scene.continues ? null : scene.audioBuffer || recordSceneAudio(scene, opened, provider, { onProgress }),
+        ]);
+        const render = op.render && { ...op.render, startFrame: scene.startFrame || null };
+        // Several takes of one scene may be resuming; each lands as a clip and the rest stay takes
+        updateSceneWith(scene.id, (s) => ({
+          ...putClipInUse(s, { id: createTakeId(), videoUrl, render }),
+          audioBuffer: s.audioBuffer || (speech.status === 'fulfilled' ? speech.value : null),
+          status: speech.status === 'fulfilled' ? { step: 'complete' } : toErrorStatus(speech.reason),
+        }));
       } else {
-         setStatus({ step: 'error', error: msg });
+        const blob = await (await fetch(videoUrl)).blob();
+        URL.revokeObjectURL(videoUrl);
+        await libraryStore.attachSceneVideo(op.movieId, op.sceneId, blob, op.render);
+        setLibraryVersion((v) => v + 1);
       }
+      untrackOperation(op.name);
+    } catch (err: any) {
+      // A cancelled resume stays recorded so the next visit can try again
+      if (!isAbortError(err)) untrackOperation(op.name);
+      if (scene) {
+        updateScene(scene.id, { status: failure(err) });
+      }
+      throw err;
     }
   };
 
-  // Audio Playback Logic
-  const playAudio = () => {
-    if (!movie?.audioBuffer) return;
+  // Stage 1: write the script and stop for review
+  const writeScript = async () => {
+    if (!idea.trim() || !confirmBudget(estimateScriptCost(provider, idea))) return;
+    const signal = startJob();
     
-    const ctx = geminiService.getAudioContext();
-    audioContextRef.current = ctx;
+    // Reset previous movie if exists (it lives on in the library)
+    await closeMovie();
 
-    // Stop existing source
-    if (audioSourceRef.current) {
-      try { audioSourceRef.current.stop(); } catch (e) {}
+    try {
+      setStatus({ step: 'script', message: 'Writing the screenplay...' });
+      const storyboard = await trackStage(reporterFor(SCRIPT_SCOPE), 'script', () =>
+        provider.generateScript(idea, sceneCount, { ...scriptOptions, mode: scriptMode, signal })
+      );
+      signal.throwIfAborted();
+
+      const newMovie = createMovie(idea, storyboard, aspectRatio, voice, videoSettings);
+      setMovie(newMovie);
+      playback.select(newMovie.scenes[0].id);
+      setStatus({ step: 'complete', message: 'Script ready. Review and edit it, then film.' });
+    } catch (err: any) {
+      setStatus(failure(err, 'write'));
     }
+  };
 
-    const source = ctx.createBufferSource();
-    source.buffer = movie.audioBuffer;
-    
-    const gainNode = ctx.createGain();
-    gainNode.gain.value = isMuted ? 0 : 1;
-    
-    source.connect(gainNode);
-    gainNode.connect(ctx.destination);
-    
-    source.start(0);
-    
-    audioSourceRef.current = source;
-    gainNodeRef.current = gainNode;
-    
-    // Handle audio end
-    source.onended = () => {
-      // If video is still playing, we let it finish, 
-      // but if we wanted to loop audio we would restart here.
-      // For now, let's just let the video loop control the state if video is longer.
-    };
+  // Rewrites the whole storyboard of the open project with the current options
+  const regenerateScript = async () => {
+    if (!movie || !confirmBudget(estimateScriptCost(provider, movie.idea))) return;
+    const signal = startJob();
+
+    try {
+      setStatus({ step: 'script', message: 'Rewriting the screenplay...' });
+      const storyboard = await trackStage(reporterFor(SCRIPT_SCOPE), 'script', () =>
+        provider.generateScript(movie.idea, movie.scenes.length, { ...scriptOptions, mode: scriptMode, signal })
+      );
+      signal.throwIfAborted();
+
+      const { scenes } = createMovie(movie.idea, storyboard, movie.aspectRatio, movie.voice);
+      setMovie((prev) => prev && { ...prev, scenes, cast: assignVoices(listSpeakers(scenes), prev.voice, prev.cast) });
+      playback.select(scenes[0].id);
+      setStatus({ step: 'complete', message: 'Script ready. Review and edit it, then film.' });
+    } catch (err: any) {
+      setStatus(failure(err, 'rewrite'));
+    }
   };
 
-  const stopAudio = () => {
-    if (audioSourceRef.current) {
-      try { audioSourceRef.current.stop(); } catch (e) {}
-      audioSourceRef.current = null;
+  // Stage 2: film and voice every scene of the reviewed script that has no clip yet
+  const filmMovie = async () => {
+    if (!movie) return;
+    const target = movie;
+    const scenes = target.scenes.filter((s) => !s.videoUrl);
+    if (!confirmBudget(estimateFilmingCost(provider, target, scenes))) return;
+    const signal = startJob();
+
+    try {
+      // Save the storyboard up front so renders resumed after a reload have a project to land in
+      lastSavedRef.current = target;
+      const saved = pendingSaveRef.current.then(() => libraryStore.saveMovie(target));
+      pendingSaveRef.current = saved.catch(() => undefined);
+      await saved;
+      setLibraryVersion((v) => v + 1);
+      
+      // Video & Audio, one scene at a time
+      for (let i = 0; i < scenes.length; i++) {
+        signal.throwIfAborted();
+        setStatus({ step: 'video', message: `Filming scene ${i + 1} of ${scenes.length} (Veo) & Recording voiceover...` });
+        await renderScene(scenes[i], target, signal);
+      }
+      
+      setStatus({ step: 'complete', message: 'Movie ready!' });
+
+    } catch (err: any) {
+      setStatus(failure(err, 'film'));
     }
   };
 
-  const togglePlay = () => {
-    if (!videoRef.current || !movie) return;
+  // Library
+  // Saves run one after another, so an older save can never land over a newer one
+  const queueSave = (target: MovieData) => {
+    lastSavedRef.current = target;
+    pendingSaveRef.current = pendingSaveRef.current
+      .then(() => libraryStore.saveMovie(target))
+      .then(() => setLibraryVersion((v) => v + 1))
+      .catch((e) => console.error('Failed to save movie to library', e));
+  };
 
-    if (isPlaying) {
-      videoRef.current.pause();
-      stopAudio();
-      setIsPlaying(false);
-    } else {
-      videoRef.current.currentTime = 0;
-      videoRef.current.play();
-      playAudio();
-      setIsPlaying(true);
+  // Persist the movie once it settles (generation finished, scene edited or regenerated) and
+  // typing has paused: each save re-reads every clip and re-encodes every voiceover
+  useEffect(() => {
+    if (!movie || isGenerating || sceneBusy || movie === lastSavedRef.current) return;
+    const handle = setTimeout(() => queueSave(movie), AUTOSAVE_DELAY);
+    return () => clearTimeout(handle);
+  }, [movie, isGenerating, sceneBusy]);
+
+  // Drops the current movie from the player once any in-flight save has read its blobs
+  const closeMovie = async () => {
+    if (!movie) return;
+    const previous = movie;
+    // Edits still waiting on the autosave delay are saved now
+    if (previous !== lastSavedRef.current && !sceneBusy) queueSave(previous);
+    playback.select(null);
+    setMovie(null);
+    await pendingSaveRef.current;
+    previous.scenes.forEach(revokeSceneUrls);
+  };
+
+  const openMovie = async (id: string) => {
+    if (isGenerating || sceneBusy) return;
+    playback.pause();
+
+    try {
+      const loaded = await libraryStore.loadMovie(id);
+      if (!loaded) return;
+      await closeMovie();
+      lastSavedRef.current = loaded;
+      setMovie(loaded);
+      playback.select(loaded.scenes[0]?.id || null);
+      setIdea(loaded.idea);
+      setAspectRatio(loaded.aspectRatio);
+      setVoice(loaded.voice);
+      setVideoSettings(loaded.video);
+      setStatus({ step: 'idle' });
+    } catch (err: any) {
+      setStatus({ step: 'error', error: `Failed to open movie: ${err.message}` });
     }
   };
 
-  const toggleMute = () => {
-    setIsMuted(!isMuted);
-    if (gainNodeRef.current) {
-      gainNodeRef.current.gain.value = !isMuted ? 0 : 1;
+  const handleLibraryRename = (id: string, title: string) => {
+    if (movie?.id !== id) return;
+    const renamed = { ...movie, title };
+    lastSavedRef.current = renamed;
+    setMovie(renamed);
+  };
+
+  const handleLibraryDelete = (id: string) => {
+    if (movie?.id !== id) return;
+    closeMovie();
+    setStatus({ step: 'idle' });
+  };
+
+  // Storyboard editing
+  const moveScene = (id: string, direction: -1 | 1) => {
+    // A head moves together with its extensions
+    setMovie((prev) => {
+      if (!prev) return prev;
+      const scenes = moveShot(prev.scenes, id, direction);
+      return scenes === prev.scenes ? prev : { ...prev, scenes };
+    });
+  };
+
+  // reproduce: re-run the scene's recorded request (same prompt, seed and settings)
+  const regenerateScene = async (id: string, reproduce: boolean = false) => {
+    const scene = movie?.scenes.find((s) => s.id === id);
+    if (!movie || !scene) return;
+
+    if (id === activeSceneId) {
+      playback.pause();
     }
-    if (videoRef.current) {
-        videoRef.current.muted = !isMuted; // Sync video mute too just in case Veo adds audio later
+
+    try {
+      if (!confirmBudget(estimateFilmingCost(provider, movie, [scene], reproduce ? 1 : undefined))) return;
+      const signal = startJob();
+      await renderScene(scene, movie, signal, reproduce && scene.render ? { request: scene.render, takes: 1 } : {});
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        updateScene(id, { status: failure(err) });
+      }
     }
   };
 
-  // Sync video end
-  const handleVideoEnded = () => {
-    setIsPlaying(false);
-    stopAudio();
+  const deleteScene = (id: string) => {
+    if (!movie) return;
+    const index = movie.scenes.findIndex((s) => s.id === id);
+    const scene = movie.scenes[index];
+    if (!scene) return;
+
+    if (id === activeSceneId) {
+      playback.pause();
+    }
+    revokeSceneUrls(scene);
+
+    const scenes = removeScene(movie.scenes, id);
+    if (scenes.length === 0) {
+      playback.select(null);
+      setMovie(null);
+      setStatus({ step: 'idle' });
+      return;
+    }
+
+    setMovie({ ...movie, scenes });
+    if (id === activeSceneId) {
+      playback.select(scenes[Math.min(index, scenes.length - 1)].id);
+    }
   };
-  
-  const handleVideoPause = () => {
-      // If the user manually pauses the native controls
-      if(isPlaying) {
-          setIsPlaying(false);
-          stopAudio();
+
+  // Narration timing
+  const setNarrationOffset = (id: string, audioOffset: number) => {
+    playback.pause();
+    updateScene(id, { audioOffset });
+  };
+
+  const trimNarration = (id: string) => {
+    const scene = movie?.scenes.find((s) => s.id === id);
+    if (!scene?.audioBuffer) return;
+    playback.pause();
+    updateScene(id, { audioBuffer: trimSilence(scene.audioBuffer, getAudioContext()) });
+  };
+
+  const fitNarration = async (id: string, mode: FitMode) => {
+    const scene = movie?.scenes.find((s) => s.id === id);
+    const length = shotDuration(id);
+    if (!movie || !scene || !length) return;
+
+    playback.pause();
+    const signal = startJob();
+    updateScene(id, { status: { step: 'audio', message: 'Fitting narration...' } });
+    try {
+      const result = await fitNarrationToVideo(scene, length, movie.voice, provider, mode, signal);
+      signal.throwIfAborted();
+      updateScene(id, { narration: result.narration, audioBuffer: result.audioBuffer, status: { step: 'complete' } });
+    } catch (err: any) {
+      // Cancelling leaves the scene as it was
+      updateScene(id, { status: isAbortError(err) ? scene.status : failure(err) });
+    }
+  };
+
+  // Extension: films clips that continue a shot from its last frame until it reaches the
+  // target length, then rewrites and re-records the shot's narration for the new length
+  const extendShot = async (id: string, targetSeconds: number, direction: string) => {
+    const head = movie && findShotHead(movie.scenes, id);
+    if (!movie || !head) return;
+    const target = movie;
+    let scenes = target.scenes;
+
+    try {
+      let length = await measureShot(listShot(scenes, head.id));
+      const clips = Math.ceil((targetSeconds - EXTENSION_TOLERANCE - length) / clipDurationFor(head, target));
+      if (clips <= 0) return;
+      if (!confirmBudget(estimateFilmingCost(provider, target, [head], 1) * clips)) return;
+      const signal = startJob();
+      playback.pause();
+
+      while (length < targetSeconds - EXTENSION_TOLERANCE) {
+        signal.throwIfAborted();
+        setStatus({ step: 'video', message: `Extending shot to ${targetSeconds}s (${length.toFixed(1)}s so far)...` });
+        const shot = listShot(scenes, head.id);
+        const last = shot[shot.length - 1];
+        const extension = await createExtension(head, last, direction);
+        scenes = insertSceneAfter(scenes, last.id, extension);
+        setMovie((prev) => prev && { ...prev, scenes: insertSceneAfter(prev.scenes, last.id, extension) });
+
+        const take = await renderScene(extension, { ...target, scenes }, signal, { takes: 1 });
+        scenes = scenes.map((s) => (s.id === extension.id ? { ...s, videoUrl: take.videoUrl } : s));
+        length += await measureShot([{ ...extension, videoUrl: take.videoUrl }]);
       }
-  }
-  
-  const handleVideoPlay = () => {
-      // If the user manually plays native controls
-      if(!isPlaying) {
-          setIsPlaying(true);
-          playAudio();
+
+      // Generated narration is rewritten to fill the longer shot; dialogue and recorded voices are left alone
+      if (head.audioBuffer && !head.lines?.length && !hasCustomVoice(head)) {
+        setStatus({ step: 'video', message: 'Re-recording narration for the extended shot...' });
+        const result = await fitNarrationToVideo(head, length, target.voice, provider, 'rewrite', signal);
+        updateScene(head.id, { narration: result.narration, audioBuffer: result.audioBuffer });
+      }
+      setStatus({ step: 'complete', message: `Shot extended to ${length.toFixed(1)}s.` });
+    } catch (err: any) {
+      setStatus(failure(err));
+    }
+  };
+
+  // Video settings apply to the open project too, for the clips filmed from now on
+  const updateVideoSettings = (patch: Partial<VideoSettings>) => {
+    setVideoSettings((prev) => ({ ...prev, ...patch }));
+    setMovie((prev) => prev && { ...prev, video: { ...prev.video, ...patch } });
+  };
+
+  // Takes
+  const chooseTake = (sceneId: string, takeId: string) => {
+    playback.pause();
+    updateSceneWith(sceneId, (s) => promoteTake(s, takeId));
+  };
+
+  const removeTake = (sceneId: string, takeId: string) => {
+    const take = movie?.scenes.find((s) => s.id === sceneId)?.takes?.find((t) => t.id === takeId);
+    if (!take) return;
+    updateSceneWith(sceneId, (s) => discardTake(s, takeId));
+    URL.revokeObjectURL(take.videoUrl);
+  };
+
+  // Shot
+  const enhanceScenePrompt = async (id: string) => {
+    const scene = movie?.scenes.find((s) => s.id === id);
+    if (!scene) return;
+    try {
+      const prompt = await provider.enhancePrompt(scene.prompt, scene.shot);
+      updateScene(id, { prompt });
+    } catch (err: any) {
+      setStatus(failure(err));
+    }
+  };
+
+  // Dialogue
+  const setSceneLines = (id: string, lines: DialogueLine[]) => {
+    setMovie((prev) => {
+      if (!prev) return prev;
+      const scenes = prev.scenes.map((s) => (s.id === id ? { ...s, lines, narration: joinDialogue(lines) } : s));
+      // New speakers get a voice; speakers no longer in any scene drop out of the cast
+      return { ...prev, scenes, cast: assignVoices(listSpeakers(scenes), prev.voice, prev.cast) };
+    });
+  };
+
+  const setSpeakerVoice = (speaker: string, speakerVoice: VoiceName) => {
+    setMovie((prev) => prev && { ...prev, cast: { ...prev.cast, [speaker]: speakerVoice } });
+  };
+
+  const recordLines = async (id: string) => {
+    const scene = movie?.scenes.find((s) => s.id === id);
+    if (!movie || !scene) return;
+
+    playback.pause();
+    const signal = startJob();
+    updateScene(id, { status: { step: 'audio', message: scene.lines?.length ? 'Recording dialogue...' : 'Recording narration...' } });
+    try {
+      const audioBuffer = await recordSceneAudio(scene, movie, provider, { onProgress: reporterFor(id), signal });
+      signal.throwIfAborted();
+      updateScene(id, { audioBuffer, voiceSource: 'tts', status: { step: scene.videoUrl ? 'complete' : 'idle' } });
+    } catch (err: any) {
+      updateScene(id, { status: isAbortError(err) ? scene.status : failure(err) });
+    }
+  };
+
+  // Voiceover from the microphone or a file takes the place of the TTS narration
+  // A file that cannot be decoded (not WAV, an unsupported encoding...) marks the scene failed
+  const importVoiceover = async (id: string, file: Blob, voiceSource: VoiceSource) => {
+    const scene = movie?.scenes.find((s) => s.id === id);
+    if (!scene) return;
+    playback.pause();
+    try {
+      const audioBuffer = await decodeVoiceover(file, getAudioContext());
+      updateScene(id, {
+        audioBuffer,
+        audioOffset: 0,
+        voiceSource,
+        status: scene.status.step === 'error' ? { step: scene.videoUrl ? 'complete' : 'idle' } : scene.status,
+      });
+    } catch (err: any) {
+      updateScene(id, { status: failure(err) });
+    }
+  };
+
+  // Languages
+  const localizeMovie = async (languages: string[], trackVoice: VoiceName) => {
+    if (!movie || !confirmBudget(estimateLocalizationCost(provider, movie, languages))) return;
+    const target = movie;
+    const signal = startJob();
+
+    try {
+      for (const [i, trackLanguage] of languages.entries()) {
+        signal.throwIfAborted();
+        setStatus({ step: 'script', message: `Translating & voicing ${trackLanguage} (${i + 1} of ${languages.length})...` });
+        const track = await buildLanguageTrack(target, trackLanguage, trackVoice, provider, reporterFor(`${trackLanguage} track`), signal);
+        setMovie((prev) => prev && { ...prev, tracks: replaceLanguageTrack(prev.tracks, track) });
       }
-  }
+      setStatus({ step: 'complete', message: `${languages.length === 1 ? 'Language track' : 'Language tracks'} ready.` });
+    } catch (err: any) {
+      setStatus(failure(err));
+    }
+  };
+
+  const selectLanguage = (trackLanguage: string | null) => {
+    playback.pause();
+    setLanguage(trackLanguage);
+  };
+
+  const deleteLanguageTrack = (trackLanguage: string) => {
+    setMovie((prev) => prev && { ...prev, tracks: prev.tracks.filter((t) => t.language !== trackLanguage) });
+  };
+
+  // Soundtrack
+  const updateMix = (patch: Partial<MixSettings>) => {
+    setMovie((prev) => prev && { ...prev, mix: { ...prev.mix, ...patch } });
+  };
+
+  const updateEffects = (patch: Partial<VideoEffects>) => {
+    setMovie((prev) => prev && { ...prev, effects: { ...prev.effects, ...patch } });
+  };
+
+  // Overlays
+  const addOverlay = (kind: OverlayKind): string => {
+    const layer = createOverlay(kind, playback.duration, playback.currentTime, movie?.title || '');
+    setMovie((prev) => prev && { ...prev, overlays: [...prev.overlays, layer] });
+    return layer.id;
+  };
+
+  const updateOverlay = (id: string, patch: Partial<OverlayLayer>) => {
+    setMovie((prev) => prev && { ...prev, overlays: prev.overlays.map((o) => (o.id === id ? { ...o, ...patch } : o)) });
+  };
+
+  const deleteOverlay = (id: string) => {
+    setMovie((prev) => prev && { ...prev, overlays: prev.overlays.filter((o) => o.id !== id) });
+  };
+
+  const uploadMusic = async (file: File) => {
+    try {
+      const music = await decodeMusicFile(file, file.name);
+      setMovie((prev) => prev && { ...prev, music });
+    } catch (err: any) {
+      setStatus(failure(err));
+    }
+  };
+
+  const generateAmbient = async () => {
+    try {
+      // One pass of the movie is enough; the bed loops if clips are added later
+      const music = await createAmbientBed(Math.max(8, playback.duration));
+      setMovie((prev) => prev && { ...prev, music });
+    } catch (err: any) {
+      setStatus(failure(err));
+    }
+  };
+
+  const downloadMix = () => {
+    if (movie && soundtrack) {
+      downloadBlob(audioBufferToWav(soundtrack), `cinegen_soundtrack_${movie.id}.wav`);
+    }
+  };
 
   // Clean up
   useEffect(() => {
     return () => {
-      stopAudio();
-      if (movie?.videoUrl) {
-        URL.revokeObjectURL(movie.videoUrl);
-      }
+      movie?.scenes.forEach(revokeSceneUrls);
     };
   }, []);
 
-  const downloadMovie = () => {
-      if(!movie) return;
-      // Download Video
-      const a = document.createElement('a');
-      a.href = movie.videoUrl;
-      a.download = `cinegen_video_${movie.id}.mp4`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-
-      // Download Audio (WAV)
-      if(movie.audioBuffer) {
-          const wavBlob = audioBufferToWav(movie.audioBuffer);
-          const url = URL.createObjectURL(wavBlob);
-          const b = document.createElement('a');
-          b.href = url;
-          b.download = `cinegen_audio_${movie.id}.wav`;
-          document.body.appendChild(b);
-          b.click();
-          document.body.removeChild(b);
-          URL.revokeObjectURL(url);
-      }
-  }
-
   return (
     <div className="max-w-6xl mx-auto px-4 py-8">
       {/* Header */}
@@ -227,6 +847,11 @@ export const MovieCreator: React.FC = () => {
           Turn your ideas into cinematic scenes with AI-generated video and voiceovers. 
           Powered by Gemini Veo and Flash TTS.
         </p>
+        {provider.id !== 'gemini' && (
+          <span className="inline-block mt-4 px-3 py-1 rounded-full text-xs font-medium bg-amber-900/30 text-amber-300 border border-amber-700/50">
+            {provider.label} provider
+          </span>
+        )}
       </div>
 
       <div className="grid lg:grid-cols-2 gap-12 items-start">
@@ -264,6 +889,7 @@ export const MovieCreator: React.FC = () => {
                 Describe your scene
               </label>
               <textarea
+                ref={ideaRef}
                 value={idea}
                 onChange={(e) => setIdea(e.target.value)}
                 placeholder="A futuristic city with flying cars in a cyberpunk style, neon lights reflection in rain..."
@@ -318,20 +944,73 @@ export const MovieCreator: React.FC = () => {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-2 flex items-center gap-2">
+                  <LayoutList className="w-4 h-4 text-green-400" />
+                  Storyboard
+              </label>
+              <div className="flex bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                  {Array.from({ length: MAX_SCENES }, (_, i) => i + 1).map((n) => (
+                      <button
+                          key={n}
+                          onClick={() => setSceneCount(n)}
+                          className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${
+                              sceneCount === n
+                              ? 'bg-zinc-800 text-white shadow-lg'
+                              : 'text-zinc-500 hover:text-zinc-300'
+                          }`}
+                      >
+                          {n === 1 ? '1 scene' : n}
+                      </button>
+                  ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-2 flex items-center gap-2">
+                  <MessagesSquare className="w-4 h-4 text-amber-400" />
+                  Script
+              </label>
+              <div className="flex bg-zinc-950 p-1 rounded-lg border border-zinc-800">
+                  {(['narration', 'dialogue'] as ScriptMode[]).map((mode) => (
+                      <button
+                          key={mode}
+                          onClick={() => setScriptMode(mode)}
+                          className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${
+                              scriptMode === mode
+                              ? 'bg-zinc-800 text-white shadow-lg'
+                              : 'text-zinc-500 hover:text-zinc-300'
+                          }`}
+                      >
+                          {mode === 'narration' ? 'Voiceover' : 'Dialogue'}
+                      </button>
+                  ))}
+              </div>
+            </div>
+
+            <ScriptOptionsForm
+              options={scriptOptions}
+              onChange={(patch) => setScriptOptions((prev) => ({ ...prev, ...patch }))}
+            />
+
+            <VideoSettingsForm settings={videoSettings} onChange={updateVideoSettings} />
+
             <button
-              onClick={generateMovie}
-              disabled={!apiKeyReady || !idea || status.step === 'script' || status.step === 'video'}
+              onClick={isRunning ? cancelJob : writeScript}
+              disabled={!isRunning && (!apiKeyReady || !idea)}
               className={`w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-3 transition-all transform active:scale-95
-                ${(!apiKeyReady || !idea) 
+                ${isRunning
+                  ? 'bg-red-900/40 hover:bg-red-900/60 text-red-200 border border-red-800'
+                  : (!apiKeyReady || !idea)
                   ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
                   : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white shadow-lg shadow-purple-900/20'
                 }
               `}
             >
-              {status.step === 'script' || status.step === 'video' ? (
+              {isRunning ? (
                 <>
-                  <RefreshCw className="w-6 h-6 animate-spin" />
-                  Generating...
+                  <Square className="w-5 h-5 fill-current" />
+                  Cancel
                 </>
               ) : (
                 <>
@@ -343,15 +1022,15 @@ export const MovieCreator: React.FC = () => {
           </div>
 
           {/* Status Messages */}
-          {status.step !== 'idle' && (
-            <div className={`p-4 rounded-xl flex items-center gap-3 text-sm font-medium animate-in fade-in slide-in-from-top-2 duration-300
-               ${status.step === 'error' ? 'bg-red-900/20 text-red-300 border border-red-800' : 'bg-zinc-950/50 text-zinc-300 border border-zinc-800'}
-            `}>
+          {status.step === 'error' && (
+            <ErrorNotice status={status} onRecover={recoverFromError} canRetry={!!failedJobRef.current} />
+          )}
+          {status.step !== 'idle' && status.step !== 'error' && (
+            <div className="p-4 rounded-xl flex items-center gap-3 text-sm font-medium animate-in fade-in slide-in-from-top-2 duration-300 bg-zinc-950/50 text-zinc-300 border border-zinc-800">
               {status.step === 'script' && <Wand2 className="w-4 h-4 text-purple-400 animate-pulse" />}
               {status.step === 'video' && <Film className="w-4 h-4 text-pink-400 animate-pulse" />}
               {status.step === 'complete' && <Sparkles className="w-4 h-4 text-green-400" />}
-              {status.step === 'error' && <AlertCircle className="w-4 h-4 text-red-400" />}
-              {status.message || status.error}
+              {status.message}
             </div>
           )}
         </div>
@@ -359,7 +1038,7 @@ export const MovieCreator: React.FC = () => {
         {/* Right Column: Preview Panel */}
         <div className="bg-zinc-900/50 p-8 rounded-3xl border border-zinc-800 backdrop-blur-xl shadow-xl min-h-[500px] flex flex-col items-center justify-center relative overflow-hidden group">
           
-          {!movie && status.step !== 'video' && status.step !== 'script' && (
+          {!movie && !isGenerating && (
              <div className="text-center text-zinc-600 space-y-4">
                <div className="w-24 h-24 rounded-full bg-zinc-800 mx-auto flex items-center justify-center">
                  <Film className="w-10 h-10 opacity-20" />
@@ -368,8 +1047,8 @@ export const MovieCreator: React.FC = () => {
              </div>
           )}
 
-          {(status.step === 'script' || status.step === 'video') && (
-            <div className="text-center space-y-8">
+          {isGenerating && !activeScene?.videoUrl && (
+            <div className="text-center space-y-8 mb-8">
               <div className="relative w-32 h-32 mx-auto">
                  <div className="absolute inset-0 rounded-full border-4 border-zinc-800"></div>
                  <div className="absolute inset-0 rounded-full border-4 border-purple-500 border-t-transparent animate-spin"></div>
@@ -385,31 +1064,57 @@ export const MovieCreator: React.FC = () => {
             </div>
           )}
 
+          <StageChecklist running={isRunning} describeScope={describeProgressScope} />
+
           {movie && (
             <div className="w-full h-full flex flex-col gap-6 animate-in zoom-in duration-500">
                {/* Video Player */}
+               {activeScene?.videoUrl && (
                <div className={`relative rounded-2xl overflow-hidden shadow-2xl bg-black border border-zinc-800 mx-auto transition-all duration-500
                  ${movie.aspectRatio === AspectRatio.Landscape ? 'w-full aspect-video' : 'h-[600px] aspect-[9/16]'}
                `}>
                  <video
-                   ref={videoRef}
-                   src={movie.videoUrl}
+                   {...playback.videoProps}
+                   poster={posterUrl || undefined}
                    className="w-full h-full object-cover"
-                   playsInline
-                   onEnded={handleVideoEnded}
-                   onPause={handleVideoPause}
-                   onPlay={handleVideoPlay}
-                   // Note: We handle muted state manually to ensure sync, but video tag needs muted to autoplay often.
-                   // However we don't autoplay here.
+                   // Note: Narration plays through Web Audio, kept in sync with this element by usePlayback.
                  />
                  
+                 {/* Effects Preview */}
+                 {activeScene?.videoUrl && hasEffects(movie.effects) && (
+                   <EffectsCanvas
+                     videoRef={playback.videoRef}
+                     effects={movie.effects}
+                     clipStart={playback.currentTime - playback.localTime}
+                     duration={playback.duration}
+                   />
+                 )}
+
+                 {/* Titles & Overlays */}
+                 {activeScene?.videoUrl && movie.overlays.length > 0 && (
+                   <OverlayCanvas
+                     videoRef={playback.videoRef}
+                     overlays={movie.overlays}
+                     clipStart={playback.currentTime - playback.localTime}
+                   />
+                 )}
+
+                 {/* Caption Overlay */}
+                 {activeCue && (
+                   <div className="absolute inset-x-0 bottom-10 flex justify-center px-6 pointer-events-none z-10">
+                     <span className="bg-black/70 text-white text-lg font-medium px-3 py-1 rounded text-center">
+                       {activeCue.text}
+                     </span>
+                   </div>
+                 )}
+
                  {/* Custom Controls Overlay */}
-                 <div className={`absolute inset-0 bg-black/40 flex items-center justify-center transition-opacity duration-300 ${isPlaying ? 'opacity-0 hover:opacity-100' : 'opacity-100'}`}>
+                 <div className={`absolute inset-0 bg-black/40 flex items-center justify-center transition-opacity duration-300 ${playback.isPlaying ? 'opacity-0 hover:opacity-100' : 'opacity-100'}`}>
                     <button 
-                      onClick={togglePlay}
+                      onClick={playback.toggle}
                       className="w-20 h-20 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-full flex items-center justify-center transition-all transform hover:scale-110 group-hover:shadow-2xl"
                     >
-                      {isPlaying ? (
+                      {playback.isPlaying ? (
                         <Pause className="w-8 h-8 text-white fill-current" />
                       ) : (
                         <Play className="w-8 h-8 text-white fill-current ml-1" />
@@ -419,29 +1124,225 @@ export const MovieCreator: React.FC = () => {
 
                  {/* Top Right Controls */}
                  <div className="absolute top-4 right-4 flex gap-2">
-                     <button onClick={toggleMute} className="p-2 bg-black/50 hover:bg-black/70 rounded-full backdrop-blur text-white">
-                         {isMuted ? <VolumeX size={18} /> : <Volume2 size={18} />}
+                     <button onClick={() => setShowCaptions(!showCaptions)} title="Captions" className="p-2 bg-black/50 hover:bg-black/70 rounded-full backdrop-blur text-white">
+                         {showCaptions ? <Captions size={18} /> : <CaptionsOff size={18} />}
+                     </button>
+                     <button onClick={() => playback.setMuted(!playback.muted)} className="p-2 bg-black/50 hover:bg-black/70 rounded-full backdrop-blur text-white">
+                         {playback.muted ? <VolumeX size={18} /> : <Volume2 size={18} />}
                      </button>
                  </div>
                </div>
+               )}
+
+               {/* Script Review */}
+               {reviewing && (
+                 <ScriptEditor
+                   scenes={movie.scenes}
+                   activeSceneId={activeSceneId}
+                   busy={isRunning}
+                   onSelect={playback.select}
+                   onChange={updateScene}
+                   onRegenerate={regenerateScript}
+                   onFilm={filmMovie}
+                 />
+               )}
+
+               {/* Transport */}
+               {playback.timeline.length > 0 && (
+                 <TransportBar
+                   isPlaying={playback.isPlaying}
+                   currentTime={playback.currentTime}
+                   duration={playback.duration}
+                   timeline={playback.timeline}
+                   activeId={playback.activeId}
+                   loop={playback.loop}
+                   playbackRate={playback.playbackRate}
+                   onToggle={playback.toggle}
+                   onSeek={playback.seek}
+                   onLoopChange={playback.setLoop}
+                   onRateChange={playback.setPlaybackRate}
+                 />
+               )}
+
+               {/* Takes */}
+               {activeScene?.videoUrl && !!activeScene.takes?.length && (
+                 <TakesGrid
+                   scene={activeScene}
+                   aspectRatio={movie.aspectRatio}
+                   busy={isRunning}
+                   onChoose={(takeId) => chooseTake(activeScene.id, takeId)}
+                   onDiscard={(takeId) => removeTake(activeScene.id, takeId)}
+                 />
+               )}
+
+               {/* Extend */}
+               {activeScene?.videoUrl && activeShotDuration > 0 && (
+                 <ExtendPanel
+                   shotLength={activeShotDuration}
+                   clipLength={clipDurationFor(activeShot[0] || activeScene, movie)}
+                   extensions={activeShot.length - 1}
+                   busy={isRunning}
+                   onExtend={(targetSeconds, direction) => extendShot(activeScene.id, targetSeconds, direction)}
+                 />
+               )}
+
+               {/* Poster & Stills */}
+               {activeScene?.videoUrl && (
+                 <PosterPanel
+                   movie={presented || movie}
+                   scene={activeScene}
+                   clipDuration={activeClipDuration}
+                   busy={isRunning}
+                   onPosterChange={(poster) => setMovie((prev) => prev && { ...prev, poster })}
+                   onPreviewChange={(preview) => setMovie((prev) => prev && { ...prev, preview })}
+                 />
+               )}
+
+               {/* Voiceover */}
+               {activeScene && !activeScene.continues && (
+                 <VoiceoverPanel
+                   scene={activeScene}
+                   busy={isRunning}
+                   onImport={(file, source) => importVoiceover(activeScene.id, file, source)}
+                   onUseTts={() => recordLines(activeScene.id)}
+                 />
+               )}
+
+               {/* Narration Timing */}
+               {activeScene?.audioBuffer && activeShotDuration > 0 && (
+                 <NarrationTimingPanel
+                   scene={activeScene}
+                   videoDuration={activeShotDuration}
+                   busy={isRunning}
+                   onOffsetChange={(offset) => setNarrationOffset(activeScene.id, offset)}
+                   onTrim={() => trimNarration(activeScene.id)}
+                   onFit={(mode) => fitNarration(activeScene.id, mode)}
+                   canRewrite={!activeScene.lines?.length && !hasCustomVoice(activeScene)}
+                 />
+               )}
+
+               {/* Dialogue */}
+               {activeScene?.lines && (
+                 <DialogueEditor
+                   scene={activeScene}
+                   cast={movie.cast}
+                   lineGap={movie.lineGap}
+                   busy={isRunning}
+                   onLinesChange={(lines) => setSceneLines(activeScene.id, lines)}
+                   onCastChange={setSpeakerVoice}
+                   onGapChange={(lineGap) => setMovie((prev) => prev && { ...prev, lineGap })}
+                   onRecord={() => recordLines(activeScene.id)}
+                 />
+               )}
+
+               {/* Shot */}
+               {activeScene && (
+                 <ShotBuilder
+                   scene={activeScene}
+                   busy={isRunning}
+                   onPromptChange={(prompt) => updateScene(activeScene.id, { prompt })}
+                   onShotChange={(shot) => updateScene(activeScene.id, { shot })}
+                   onEnhance={() => enhanceScenePrompt(activeScene.id)}
+                   onStartFrameChange={(startFrame) => updateScene(activeScene.id, { startFrame })}
+                   onReproduce={() => regenerateScene(activeScene.id, true)}
+                 />
+               )}
+
+               {/* Soundtrack */}
+               {playback.timeline.length > 0 && (
+                 <MixerPanel
+                   music={movie.music}
+                   mix={movie.mix}
+                   rendering={mixing}
+                   busy={isRunning}
+                   canDownload={!!soundtrack}
+                   onMixChange={updateMix}
+                   onUploadMusic={uploadMusic}
+                   onGenerateAmbient={generateAmbient}
+                   onRemoveMusic={() => setMovie((prev) => prev && { ...prev, music: null })}
+                   onDownloadMix={downloadMix}
+                 />
+               )}
+
+               {/* Look & Effects */}
+               {playback.timeline.length > 0 && (
+                 <EffectsPanel effects={movie.effects} busy={isRunning} onChange={updateEffects} />
+               )}
+
+               {/* Titles & Overlays */}
+               {playback.timeline.length > 0 && (
+                 <OverlayEditor
+                   overlays={movie.overlays}
+                   duration={playback.duration}
+                   playhead={playback.currentTime}
+                   busy={isRunning}
+                   onAdd={addOverlay}
+                   onChange={updateOverlay}
+                   onDelete={deleteOverlay}
+                 />
+               )}
+
+               {/* Languages */}
+               {playback.timeline.length > 0 && (
+                 <LocalizationPanel
+                   tracks={movie.tracks}
+                   activeLanguage={activeLanguage}
+                   defaultVoice={movie.voice}
+                   busy={isRunning}
+                   onLocalize={localizeMovie}
+                   onSelect={selectLanguage}
+                   onDelete={deleteLanguageTrack}
+                 />
+               )}
 
                {/* Script & Actions */}
                <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50">
-                 <div className="flex items-center justify-between mb-4">
+                 <div className="flex items-start justify-between gap-4 mb-4">
                     <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider">Script</h3>
-                    <button 
-                       onClick={downloadMovie}
-                       className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors"
-                    >
-                        <Download size={14} /> Download Assets
-                    </button>
+                    <ExportPanel movie={presented || movie} disabled={isGenerating || sceneBusy} />
                  </div>
-                 <p className="text-zinc-200 font-medium leading-relaxed italic">"{movie.script}"</p>
+                 {heardScene && (
+                   <p className="text-zinc-200 font-medium leading-relaxed italic">"{heardScene.narration}"</p>
+                 )}
+               </div>
+
+               {/* Storyboard */}
+               <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50">
+                 <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider mb-4">
+                   Storyboard · {movie.scenes.length} {movie.scenes.length === 1 ? 'scene' : 'scenes'}
+                 </h3>
+                 <SceneList
+                   scenes={movie.scenes}
+                   activeSceneId={activeSceneId}
+                   busy={isGenerating || sceneBusy}
+                   onSelect={playback.select}
+                   onMove={moveScene}
+                   onRegenerate={regenerateScene}
+                   onDelete={deleteScene}
+                 />
                </div>
             </div>
           )}
         </div>
       </div>
+
+      <BatchQueue
+        provider={provider}
+        defaultAspectRatio={aspectRatio}
+        defaultVoice={voice}
+        disabled={!apiKeyReady}
+        onLibraryChanged={() => setLibraryVersion((v) => v + 1)}
+      />
+
+      <UsagePanel />
+
+      <Library
+        currentMovieId={movie?.id || null}
+        refreshKey={libraryVersion}
+        onOpen={openMovie}
+        onRenamed={handleLibraryRename}
+        onDeleted={handleLibraryDelete}
+      />
     </div>
   );
 };
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioLines, Scissors, Maximize2, RefreshCw } from 'lucide-react';
+import { Scene } from '../types';
+import { detectSilences } from '../services/audioUtils';
+import { FitMode } from '../services/narrationTiming';
+
+interface NarrationTimingPanelProps {
+  scene: Scene;
+  videoDuration: number;
+  busy: boolean;
+  onOffsetChange: (offset: number) => void;
+  onTrim: () => void;
+  onFit: (mode: FitMode) => void;
+  canRewrite?: boolean; // dialogue takes can only be stretched
+}
+
+const WAVEFORM_WIDTH = 600;
+const WAVEFORM_HEIGHT = 80;
+
+// Narration waveform laid over the clip's duration: the zinc band is the video, the
+// waveform starts at the offset, and anything that runs past the clip is drawn in red.
+const drawWaveform = (canvas: HTMLCanvasElement, buffer: AudioBuffer, offset: number, videoDuration: number) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  // Scale so both the clip and the narration fit in view
+  const span = Math.max(videoDuration, offset + buffer.duration);
+  const toX = (seconds: number) => (seconds / span) * WAVEFORM_WIDTH;
+  const mid = WAVEFORM_HEIGHT / 2;
+
+  ctx.clearRect(0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+  ctx.fillStyle = '#27272a';
+  ctx.fillRect(0, 0, toX(videoDuration), WAVEFORM_HEIGHT);
+
+  ctx.fillStyle = 'rgba(250, 204, 21, 0.15)';
+  detectSilences(buffer).forEach((silence) => {
+    ctx.fillRect(toX(offset + silence.start), 0, toX(silence.end - silence.start), WAVEFORM_HEIGHT);
+  });
+
+  const data = buffer.getChannelData(0);
+  const startX = Math.floor(toX(offset));
+  const endX = Math.ceil(toX(offset + buffer.duration));
+  const samplesPerPixel = data.length / Math.max(1, endX - startX);
+
+  for (let x = startX; x < endX; x++) {
+    const from = Math.floor((x - startX) * samplesPerPixel);
+    const to = Math.min(data.length, Math.floor(from + samplesPerPixel));
+    let peak = 0;
+    for (let i = from; i < to; i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+    const height = Math.max(1, peak * (WAVEFORM_HEIGHT - 8));
+    ctx.fillStyle = x > toX(videoDuration) ? '#f87171' : '#a78bfa';
+    ctx.fillRect(x, mid - height / 2, 1, height);
+  }
+};
+
+export const NarrationTimingPanel: React.FC<NarrationTimingPanelProps> = ({
+  scene,
+  videoDuration,
+  busy,
+  onOffsetChange,
+  onTrim,
+  onFit,
+  canRewrite = true,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [fitMode, setFitMode] = useState<FitMode>('stretch');
+
+  const buffer = scene.audioBuffer;
+  const narrationEnd = scene.audioOffset + (buffer?.duration || 0);
+  const overrun = narrationEnd - videoDuration;
+
+  useEffect(() => {
+    if (canvasRef.current && buffer && videoDuration > 0) {
+      drawWaveform(canvasRef.current, buffer, scene.audioOffset, videoDuration);
+    }
+  }, [buffer, scene.audioOffset, videoDuration]);
+
+  if (!buffer) return null;
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <AudioLines className="w-4 h-4" /> Narration Timing
+        </h3>
+        <span className={`text-xs ${overrun > 0 ? 'text-red-400' : 'text-zinc-500'}`}>
+          {buffer.duration.toFixed(1)}s narration · {videoDuration.toFixed(1)}s clip
+          {overrun > 0 && ` · ${overrun.toFixed(1)}s over`}
+        </span>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={WAVEFORM_WIDTH}
+        height={WAVEFORM_HEIGHT}
+        className="w-full h-20 rounded-lg bg-zinc-900"
+      />
+
+      <label className="block text-xs text-zinc-400">
+        Start offset: {scene.audioOffset.toFixed(2)}s
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, videoDuration - 0.5)}
+          step={0.05}
+          value={scene.audioOffset}
+          onChange={(e) => onOffsetChange(Number(e.target.value))}
+          disabled={busy}
+          className="w-full mt-1 accent-purple-500"
+        />
+      </label>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={onTrim}
+          disabled={busy}
+          className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+        >
+          <Scissors size={14} /> Trim silence
+        </button>
+        <div className="flex items-center gap-2 ml-auto">
+          <select
+            value={fitMode}
+            onChange={(e) => setFitMode(e.target.value as FitMode)}
+            disabled={busy}
+            className="bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none"
+          >
+            <option value="stretch">Time-stretch</option>
+            {canRewrite && <option value="rewrite">Rewrite & re-record</option>}
+          </select>
+          <button
+            onClick={() => onFit(canRewrite ? fitMode : 'stretch')}
+            disabled={busy}
+            className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+          >
+            {busy ? <RefreshCw size={14} className="animate-spin" /> : <Maximize2 size={14} />} Fit to video
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
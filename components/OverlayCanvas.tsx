@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OverlayLayer } from '../types';
+import { drawOverlays, loadOverlayImages } from '../services/overlays';
+
+interface OverlayCanvasProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  overlays: OverlayLayer[];
+  clipStart: number; // where the playing clip starts in the movie
+}
+
+// Live preview of the overlay layers, drawn at the video's own resolution on a canvas laid
+// over the player so text sizes match the export
+export const OverlayCanvas: React.FC<OverlayCanvasProps> = ({ videoRef, overlays, clipStart }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [images, setImages] = useState<Map<string, ImageBitmap>>(new Map());
+  const latestRef = useRef({ overlays, clipStart, images });
+  latestRef.current = { overlays, clipStart, images };
+
+  // Logos are decoded once per image, not on every edit
+  const cacheRef = useRef(new WeakMap<Blob, ImageBitmap>());
+  useEffect(() => {
+    let cancelled = false;
+    loadOverlayImages(overlays, cacheRef.current)
+      .then((loaded) => !cancelled && setImages(loaded))
+      .catch((e) => console.error(e));
+    return () => { cancelled = true; };
+  }, [overlays]);
+
+  useEffect(() => {
+    let handle = 0;
+    const tick = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      const video = videoRef.current;
+      if (canvas && ctx && video?.videoWidth) {
+        if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+        }
+        const { overlays, clipStart, images } = latestRef.current;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawOverlays(ctx, canvas.width, canvas.height, overlays, clipStart + video.currentTime, images);
+      }
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, []);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full object-cover pointer-events-none" />;
+};
@@ -0,0 +1,205 @@
+import React, { useRef, useState } from 'react';
+import { Type, Plus, Trash2, ImagePlus, X, Crosshair } from 'lucide-react';
+import { OverlayAnimation, OverlayKind, OverlayLayer, OverlayPosition } from '../types';
+import { OVERLAY_FONTS, OVERLAY_LABELS } from '../services/overlays';
+
+interface OverlayEditorProps {
+  overlays: OverlayLayer[];
+  duration: number; // whole movie
+  playhead: number;
+  busy: boolean;
+  onAdd: (kind: OverlayKind) => string; // returns the new layer's id
+  onChange: (id: string, patch: Partial<OverlayLayer>) => void;
+  onDelete: (id: string) => void;
+}
+
+const linkButton = 'text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500';
+const field = 'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none disabled:opacity-50';
+
+const POSITIONS: { value: OverlayPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top', label: 'Top' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'center', label: 'Centre' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+const ANIMATIONS: { value: OverlayAnimation; label: string }[] = [
+  { value: 'none', label: 'Cut' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide', label: 'Slide' },
+  { value: 'zoom', label: 'Zoom' },
+];
+
+const KINDS = Object.keys(OVERLAY_LABELS) as OverlayKind[];
+
+// Timed title, lower-third, end card and watermark layers over the player
+export const OverlayEditor: React.FC<OverlayEditorProps> = ({ overlays, duration, playhead, busy, onAdd, onChange, onDelete }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const selected = overlays.find((o) => o.id === selectedId) || null;
+
+  const update = (patch: Partial<OverlayLayer>) => selected && onChange(selected.id, patch);
+
+  const setTime = (key: 'start' | 'end', value: number) => {
+    if (!selected) return;
+    const time = Math.max(0, Math.min(duration, value));
+    update(key === 'start' ? { start: Math.min(time, selected.end - 0.1) } : { end: Math.max(time, selected.start + 0.1) });
+  };
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+        <Type className="w-4 h-4" /> Titles & Overlays
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {KINDS.map((kind) => (
+          <button key={kind} onClick={() => setSelectedId(onAdd(kind))} disabled={busy} className={linkButton}>
+            <Plus size={14} /> {OVERLAY_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      {overlays.length > 0 && (
+        <div className="space-y-1">
+          {overlays.map((layer) => (
+            <div
+              key={layer.id}
+              onClick={() => setSelectedId(layer.id === selectedId ? null : layer.id)}
+              className={`flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer text-xs ${
+                layer.id === selectedId ? 'bg-zinc-800/80 border-purple-500/50' : 'bg-zinc-950/50 border-zinc-800/50 hover:border-zinc-700'
+              }`}
+            >
+              <span className="text-zinc-500 w-20 shrink-0">{OVERLAY_LABELS[layer.kind]}</span>
+              <span className="text-zinc-200 truncate flex-1">{layer.image ? 'Logo image' : layer.text || 'Untitled'}</span>
+              <span className="text-zinc-500 shrink-0">{layer.start.toFixed(1)}s – {layer.end.toFixed(1)}s</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(layer.id);
+                }}
+                disabled={busy}
+                title="Delete layer"
+                className="p-1 text-zinc-500 hover:text-red-400 disabled:opacity-50"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-3 pt-2 border-t border-zinc-800/50">
+          {selected.kind === 'watermark' && (
+            <div className="flex items-center gap-3">
+              <button onClick={() => fileRef.current?.click()} disabled={busy} className={linkButton}>
+                <ImagePlus size={14} /> {selected.image ? 'Replace logo' : 'Use a logo image'}
+              </button>
+              {selected.image && (
+                <button onClick={() => update({ image: null })} disabled={busy} className={linkButton}>
+                  <X size={14} /> Use text instead
+                </button>
+              )}
+              <input
+                ref={fileRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) update({ image: file });
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          )}
+
+          {!selected.image && (
+            <div className="grid grid-cols-2 gap-2">
+              <input value={selected.text} onChange={(e) => update({ text: e.target.value })} disabled={busy} placeholder="Text" className={field} />
+              <input value={selected.subtitle} onChange={(e) => update({ subtitle: e.target.value })} disabled={busy} placeholder="Second line (optional)" className={field} />
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            {!selected.image && (
+              <>
+                <select value={selected.font} onChange={(e) => update({ font: e.target.value })} disabled={busy} className={field}>
+                  {OVERLAY_FONTS.map((font) => (
+                    <option key={font} value={font}>{font}</option>
+                  ))}
+                </select>
+                <input
+                  type="color"
+                  value={selected.color}
+                  onChange={(e) => update({ color: e.target.value })}
+                  disabled={busy}
+                  className="w-8 h-6 bg-transparent disabled:opacity-50"
+                />
+              </>
+            )}
+            <select value={selected.position} onChange={(e) => update({ position: e.target.value as OverlayPosition })} disabled={busy} className={field}>
+              {POSITIONS.map((p) => (
+                <option key={p.value} value={p.value}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="block text-xs text-zinc-400">
+            Size: {Math.round(selected.size * 100)}% of frame height
+            <input
+              type="range"
+              min={0.02}
+              max={0.2}
+              step={0.005}
+              value={selected.size}
+              onChange={(e) => update({ size: Number(e.target.value) })}
+              disabled={busy}
+              className="w-full mt-1 accent-purple-500 disabled:opacity-50"
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            {(['start', 'end'] as const).map((key) => (
+              <div key={key} className="space-y-1">
+                <label className="text-xs text-zinc-400 flex items-center gap-2">
+                  {key === 'start' ? 'In at' : 'Out at'}
+                  <input
+                    type="number"
+                    min={0}
+                    max={duration}
+                    step={0.1}
+                    value={Number(selected[key].toFixed(2))}
+                    onChange={(e) => setTime(key, Number(e.target.value))}
+                    disabled={busy}
+                    className={`${field} w-20`}
+                  />
+                  s
+                  <button onClick={() => setTime(key, playhead)} disabled={busy} title="Set to the playhead" className={linkButton}>
+                    <Crosshair size={14} />
+                  </button>
+                </label>
+                <select
+                  value={key === 'start' ? selected.animationIn : selected.animationOut}
+                  onChange={(e) => update(key === 'start'
+                    ? { animationIn: e.target.value as OverlayAnimation }
+                    : { animationOut: e.target.value as OverlayAnimation })}
+                  disabled={busy}
+                  className={field}
+                >
+                  {ANIMATIONS.map((a) => (
+                    <option key={a.value} value={a.value}>{key === 'start' ? `${a.label} in` : `${a.label} out`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
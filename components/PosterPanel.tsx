@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Image, Download, Film, Pin, RefreshCw } from 'lucide-react';
+import { AspectRatio, MovieData, PosterFrame, Scene } from '../types';
+import { renderStill, renderAnimatedPreview, StillFormat, StillOverlay } from '../services/thumbnails';
+import { downloadBlob } from '../services/exportService';
+
+interface PosterPanelProps {
+  movie: MovieData;
+  scene: Scene; // the filmed scene to pick a frame from
+  clipDuration: number;
+  busy: boolean;
+  onPosterChange: (poster: PosterFrame) => void;
+  onPreviewChange: (preview: Blob) => void;
+}
+
+const field = 'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none disabled:opacity-50';
+const action = 'text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500';
+
+// Poster frame picker, still export and the animated preview for the library and sharing
+export const PosterPanel: React.FC<PosterPanelProps> = ({ movie, scene, clipDuration, busy, onPosterChange, onPreviewChange }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [time, setTime] = useState(0);
+  const [overlay, setOverlay] = useState<StillOverlay>('title');
+  const [format, setFormat] = useState<StillFormat>('jpeg');
+  const [working, setWorking] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sceneNumber = movie.scenes.findIndex((s) => s.id === scene.id) + 1;
+  const posterNumber = movie.poster ? movie.scenes.findIndex((s) => s.id === movie.poster!.sceneId) + 1 : 0;
+
+  // Start on the current poster when it is in this scene
+  useEffect(() => {
+    setTime(movie.poster?.sceneId === scene.id ? movie.poster.time : 0);
+  }, [scene.id]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  }, [time, scene.videoUrl]);
+
+  useEffect(() => {
+    if (!movie.preview) return setPreviewUrl(null);
+    const url = URL.createObjectURL(movie.preview);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [movie.preview]);
+
+  const run = async (label: string, job: () => Promise<void>) => {
+    setError(null);
+    setWorking(label);
+    try {
+      await job();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to render the image.');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const downloadStill = () => run('Rendering still...', async () => {
+    const blob = await renderStill(movie, { sceneId: scene.id, time }, { format, overlay });
+    downloadBlob(blob, `cinegen_still_${movie.id}_${sceneNumber}.${format === 'jpeg' ? 'jpg' : 'png'}`);
+  });
+
+  const makePreview = () => run('Rendering preview...', async () => {
+    onPreviewChange(await renderAnimatedPreview(movie, (p) => setWorking(`Rendering preview... ${Math.round(p * 100)}%`)));
+  });
+
+  const disabled = busy || !!working;
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <Image className="w-4 h-4" /> Poster & Stills
+        </h3>
+        <span className="text-xs text-zinc-500">
+          {posterNumber > 0 ? `Poster: scene ${posterNumber} at ${movie.poster!.time.toFixed(1)}s` : 'Poster: first frame'}
+        </span>
+      </div>
+
+      <div className="flex gap-4 items-start">
+        <video
+          ref={videoRef}
+          src={scene.videoUrl || undefined}
+          muted
+          playsInline
+          preload="auto"
+          className={`rounded-lg bg-black object-cover ${movie.aspectRatio === AspectRatio.Portrait ? 'w-24 aspect-[9/16]' : 'w-40 aspect-video'}`}
+        />
+        <div className="flex-1 space-y-3">
+          <label className="block text-xs text-zinc-400">
+            Frame: {time.toFixed(2)}s
+            <input
+              type="range"
+              min={0}
+              max={Math.max(0, clipDuration - 0.05)}
+              step={0.04}
+              value={time}
+              onChange={(e) => setTime(Number(e.target.value))}
+              disabled={disabled}
+              className="w-full mt-1 accent-purple-500"
+            />
+          </label>
+          <button onClick={() => onPosterChange({ sceneId: scene.id, time })} disabled={disabled} className={action}>
+            <Pin size={14} /> Use as poster
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={overlay} onChange={(e) => setOverlay(e.target.value as StillOverlay)} disabled={disabled} className={field}>
+          <option value="none">No text</option>
+          <option value="title">Title</option>
+          <option value="narration">Title & narration</option>
+        </select>
+        <select value={format} onChange={(e) => setFormat(e.target.value as StillFormat)} disabled={disabled} className={field}>
+          <option value="jpeg">JPEG</option>
+          <option value="png">PNG</option>
+        </select>
+        <button onClick={downloadStill} disabled={disabled} className={action}>
+          <Download size={14} /> Download still
+        </button>
+        <button onClick={makePreview} disabled={disabled} className={`${action} ml-auto`}>
+          <Film size={14} /> {movie.preview ? 'Re-render' : 'Render'} animated preview
+        </button>
+      </div>
+
+      {working && (
+        <p className="text-xs text-purple-400 flex items-center gap-1">
+          <RefreshCw size={12} className="animate-spin" /> {working}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {previewUrl && (
+        <div className="flex items-end gap-3">
+          <img src={previewUrl} alt="Animated preview" className="w-40 rounded-lg" />
+          <button
+            onClick={() => downloadBlob(movie.preview!, `cinegen_preview_${movie.id}.gif`)}
+            disabled={disabled}
+            className={action}
+          >
+            <Download size={14} /> GIF
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
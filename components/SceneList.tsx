@@ -0,0 +1,112 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, RefreshCw, Trash2, AlertCircle, Check } from 'lucide-react';
+import { Scene } from '../types';
+import { ERROR_GUIDE } from '../services/errors';
+
+interface SceneListProps {
+  scenes: Scene[];
+  activeSceneId: string | null;
+  busy: boolean;
+  onSelect: (id: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onRegenerate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const SceneList: React.FC<SceneListProps> = ({
+  scenes,
+  activeSceneId,
+  busy,
+  onSelect,
+  onMove,
+  onRegenerate,
+  onDelete,
+}) => {
+  return (
+    <div className="space-y-2">
+      {scenes.map((scene, index) => {
+        const isActive = scene.id === activeSceneId;
+        const isWorking = scene.status.step === 'video' || scene.status.step === 'audio';
+
+        return (
+          <div
+            key={scene.id}
+            onClick={() => onSelect(scene.id)}
+            className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors
+              ${isActive ? 'bg-zinc-800/80 border-purple-500/50' : 'bg-zinc-950/50 border-zinc-800/50 hover:border-zinc-700'}
+            `}
+          >
+            <div className="w-7 h-7 shrink-0 rounded-full bg-zinc-800 flex items-center justify-center text-xs font-bold text-zinc-300">
+              {index + 1}
+            </div>
+
+            <div className="flex-1 min-w-0 space-y-1">
+              {scene.continues ? (
+                <p className="text-sm text-zinc-500 italic">Extension of the previous shot</p>
+              ) : (
+                <p className="text-sm text-zinc-200 italic line-clamp-2">"{scene.narration}"</p>
+              )}
+              <p className="text-xs text-zinc-500 truncate">{scene.prompt}</p>
+              <div className="flex items-center gap-2 text-xs text-zinc-600">
+                <span>{scene.duration}s</span>
+                {isWorking && (
+                  <span className="flex items-center gap-1 text-purple-400">
+                    <RefreshCw size={12} className="animate-spin" /> {scene.status.message}
+                  </span>
+                )}
+                {scene.status.step === 'complete' && <Check size={12} className="text-green-400" />}
+                {scene.status.step === 'error' && (
+                  <span
+                    className="flex items-center gap-1 text-red-400 truncate"
+                    title={scene.status.errorKind && ERROR_GUIDE[scene.status.errorKind].explanation}
+                  >
+                    <AlertCircle size={12} /> {scene.status.error}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-1" onClick={(e) => e.stopPropagation()}>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onMove(scene.id, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                  className="p-1 text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                >
+                  <ArrowUp size={14} />
+                </button>
+                <button
+                  onClick={() => onMove(scene.id, 1)}
+                  disabled={index === scenes.length - 1}
+                  title="Move down"
+                  className="p-1 text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                >
+                  <ArrowDown size={14} />
+                </button>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onRegenerate(scene.id)}
+                  disabled={busy}
+                  title="Regenerate scene"
+                  className="p-1 text-zinc-500 hover:text-white disabled:opacity-30 disabled:hover:text-zinc-500"
+                >
+                  <RefreshCw size={14} />
+                </button>
+                <button
+                  onClick={() => onDelete(scene.id)}
+                  disabled={busy}
+                  title="Delete scene"
+                  className="p-1 text-zinc-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-zinc-500"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
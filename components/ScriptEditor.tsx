@@ -0,0 +1,101 @@
+import React from 'react';
+import { FileText, RefreshCw, Clapperboard } from 'lucide-react';
+import { Scene } from '../types';
+
+interface ScriptEditorProps {
+  scenes: Scene[];
+  activeSceneId: string | null;
+  busy: boolean;
+  onSelect: (id: string) => void;
+  onChange: (id: string, patch: Partial<Pick<Scene, 'prompt' | 'narration' | 'duration'>>) => void;
+  onRegenerate: () => void;
+  onFilm: () => void;
+}
+
+const field = 'w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-200 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-none disabled:opacity-50';
+
+// Review stage between writing the script and filming it
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({
+  scenes,
+  activeSceneId,
+  busy,
+  onSelect,
+  onChange,
+  onRegenerate,
+  onFilm,
+}) => {
+  const totalDuration = scenes.reduce((sum, s) => sum + s.duration, 0);
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <FileText className="w-4 h-4" /> Script Review · {totalDuration}s
+        </h3>
+        <button
+          onClick={onRegenerate}
+          disabled={busy}
+          className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+        >
+          <RefreshCw size={14} className={busy ? 'animate-spin' : ''} /> Regenerate
+        </button>
+      </div>
+
+      {scenes.map((scene, index) => (
+        <div
+          key={scene.id}
+          onClick={() => onSelect(scene.id)}
+          className={`space-y-2 p-3 rounded-xl border ${scene.id === activeSceneId ? 'border-purple-500/50' : 'border-zinc-800/50'}`}
+        >
+          <div className="flex items-center justify-between text-xs text-zinc-500">
+            <span className="font-bold text-zinc-300">Scene {index + 1}</span>
+            <label className="flex items-center gap-1">
+              <input
+                type="number"
+                min={5}
+                max={10}
+                value={scene.duration}
+                onChange={(e) => onChange(scene.id, { duration: Math.min(10, Math.max(5, Number(e.target.value) || 8)) })}
+                disabled={busy}
+                className="w-12 bg-zinc-950 border border-zinc-800 rounded px-1 text-zinc-300"
+              />
+              s
+            </label>
+          </div>
+          <textarea
+            value={scene.prompt}
+            onChange={(e) => onChange(scene.id, { prompt: e.target.value })}
+            disabled={busy}
+            rows={3}
+            className={field}
+            aria-label="Visual prompt"
+          />
+          {scene.lines ? (
+            <div className="text-sm text-zinc-300 space-y-1">
+              {scene.lines.map((line, i) => (
+                <p key={i}><span className="text-zinc-500">{line.speaker}:</span> {line.text}</p>
+              ))}
+            </div>
+          ) : (
+            <textarea
+              value={scene.narration}
+              onChange={(e) => onChange(scene.id, { narration: e.target.value })}
+              disabled={busy}
+              rows={2}
+              className={`${field} italic`}
+              aria-label="Narration"
+            />
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={onFilm}
+        disabled={busy}
+        className="w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white disabled:opacity-50"
+      >
+        <Clapperboard className="w-5 h-5" /> Film {scenes.length} {scenes.length === 1 ? 'scene' : 'scenes'}
+      </button>
+    </div>
+  );
+};
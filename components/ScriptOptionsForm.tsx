@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { ScriptOptions } from '../types';
+import { STYLE_PRESETS, TONES, LANGUAGES, DEFAULT_SCRIPT_TEMPLATE, saveScriptTemplate } from '../services/scriptTemplates';
+
+interface ScriptOptionsFormProps {
+  options: ScriptOptions;
+  onChange: (patch: Partial<ScriptOptions>) => void;
+}
+
+const select = 'w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:ring-2 focus:ring-purple-500/50';
+
+export const ScriptOptionsForm: React.FC<ScriptOptionsFormProps> = ({ options, onChange }) => {
+  const [showTemplate, setShowTemplate] = useState(false);
+
+  const setTemplate = (template: string | null) => {
+    saveScriptTemplate(template);
+    onChange({ template: template || undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-zinc-300 flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-indigo-400" />
+        Script options
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <select value={options.style} onChange={(e) => onChange({ style: e.target.value })} className={select} title="Style">
+          {Object.keys(STYLE_PRESETS).map((key) => (
+            <option key={key} value={key}>{key[0].toUpperCase() + key.slice(1)}</option>
+          ))}
+        </select>
+        <select value={options.tone} onChange={(e) => onChange({ tone: e.target.value })} className={select} title="Tone">
+          {TONES.map((tone) => (
+            <option key={tone} value={tone}>{tone[0].toUpperCase() + tone.slice(1)} tone</option>
+          ))}
+        </select>
+        <select value={options.language} onChange={(e) => onChange({ language: e.target.value })} className={select} title="Language">
+          {LANGUAGES.map((language) => (
+            <option key={language} value={language}>{language}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          <input
+            type="number"
+            min={0}
+            max={120}
+            step={5}
+            value={options.targetDuration || ''}
+            placeholder="Auto"
+            onChange={(e) => onChange({ targetDuration: Number(e.target.value) || undefined })}
+            className={select}
+          />
+          seconds
+        </label>
+      </div>
+
+      <button onClick={() => setShowTemplate(!showTemplate)} className="text-xs text-zinc-500 hover:text-zinc-300">
+        {showTemplate ? 'Hide' : 'Edit'} prompt template{options.template ? ' (customised)' : ''}
+      </button>
+      {showTemplate && (
+        <div className="space-y-2">
+          <textarea
+            value={options.template || DEFAULT_SCRIPT_TEMPLATE}
+            onChange={(e) => setTemplate(e.target.value)}
+            className="w-full bg-zinc-950 border border-zinc-800 rounded-xl p-3 text-xs font-mono text-zinc-300 focus:outline-none h-48"
+          />
+          <div className="flex items-center justify-between text-xs text-zinc-600">
+            <span>Placeholders: {'{{idea}} {{sceneCount}} {{style}} {{tone}} {{language}} {{length}} {{fields}}'}</span>
+            <button onClick={() => setTemplate(null)} className="flex items-center gap-1 text-zinc-500 hover:text-white">
+              <RotateCcw size={12} /> Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Camera, Wand2, RefreshCw, ImagePlus, X, History } from 'lucide-react';
+import { Scene, ShotSpec } from '../types';
+import { SHOT_OPTIONS, SHOT_LABELS, composeShotPrompt } from '../services/shotBuilder';
+import { describeRender } from '../services/videoSettings';
+
+interface ShotBuilderProps {
+  scene: Scene;
+  busy: boolean;
+  onPromptChange: (prompt: string) => void;
+  onShotChange: (shot: ShotSpec) => void;
+  onEnhance: () => Promise<void>;
+  onStartFrameChange: (frame: Blob | null) => void;
+  onReproduce: () => void;
+}
+
+const field = 'w-full bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none disabled:opacity-50';
+
+export const ShotBuilder: React.FC<ShotBuilderProps> = ({
+  scene,
+  busy,
+  onPromptChange,
+  onShotChange,
+  onEnhance,
+  onStartFrameChange,
+  onReproduce,
+}) => {
+  const [enhancing, setEnhancing] = useState(false);
+  const [frameUrl, setFrameUrl] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const shot = scene.shot || {};
+
+  // Preview URL for the starting frame, revoked when it changes
+  useEffect(() => {
+    if (!scene.startFrame) {
+      setFrameUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(scene.startFrame);
+    setFrameUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [scene.startFrame]);
+
+  const handleEnhance = async () => {
+    setEnhancing(true);
+    try {
+      await onEnhance();
+    } finally {
+      setEnhancing(false);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <Camera className="w-4 h-4" /> Shot
+        </h3>
+        <button
+          onClick={handleEnhance}
+          disabled={busy || enhancing}
+          className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+        >
+          {enhancing ? <RefreshCw size={14} className="animate-spin" /> : <Wand2 size={14} />} Enhance prompt
+        </button>
+      </div>
+
+      <textarea
+        value={scene.prompt}
+        onChange={(e) => onPromptChange(e.target.value)}
+        disabled={busy || enhancing}
+        rows={3}
+        className={`${field} text-sm resize-none`}
+        aria-label="Visual prompt"
+      />
+
+      <div className="grid grid-cols-2 gap-3">
+        {(Object.keys(SHOT_OPTIONS) as (keyof typeof SHOT_OPTIONS)[]).map((key) => (
+          <label key={key} className="text-xs text-zinc-500 space-y-1">
+            <span>{SHOT_LABELS[key]}</span>
+            <input
+              value={shot[key] || ''}
+              onChange={(e) => onShotChange({ ...shot, [key]: e.target.value })}
+              list={`shot-${key}`}
+              disabled={busy}
+              placeholder="Any"
+              className={field}
+            />
+            <datalist id={`shot-${key}`}>
+              {SHOT_OPTIONS[key].map((option) => <option key={option} value={option} />)}
+            </datalist>
+          </label>
+        ))}
+        <label className="text-xs text-zinc-500 space-y-1">
+          <span>{SHOT_LABELS.negativePrompt}</span>
+          <input
+            value={shot.negativePrompt || ''}
+            onChange={(e) => onShotChange({ ...shot, negativePrompt: e.target.value })}
+            disabled={busy}
+            placeholder="text, watermark, blur"
+            className={field}
+          />
+        </label>
+      </div>
+
+      {/* Image-to-video */}
+      <div className="flex items-center gap-3">
+        {frameUrl ? (
+          <div className="relative">
+            <img src={frameUrl} alt="Starting frame" className="h-14 rounded-md border border-zinc-800" />
+            <button
+              onClick={() => onStartFrameChange(null)}
+              disabled={busy}
+              title="Remove starting frame"
+              className="absolute -top-2 -right-2 p-0.5 rounded-full bg-zinc-800 text-zinc-400 hover:text-white"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => fileRef.current?.click()}
+            disabled={busy}
+            className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+          >
+            <ImagePlus size={14} /> Starting frame
+          </button>
+        )}
+        <input
+          ref={fileRef}
+          type="file"
+          accept="image/png,image/jpeg,image/webp"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onStartFrameChange(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {/* What Veo will actually receive */}
+      <p className="text-xs text-zinc-600 leading-relaxed">
+        <span className="text-zinc-500">Veo prompt:</span> {composeShotPrompt(scene.prompt, scene.shot)}
+        {shot.negativePrompt && <><br /><span className="text-zinc-500">Negative:</span> {shot.negativePrompt}</>}
+      </p>
+
+      {/* The exact request behind the current clip */}
+      {scene.render && (
+        <div className="flex items-center gap-3 pt-2 border-t border-zinc-800/50">
+          <p className="text-xs text-zinc-500 flex-1 truncate" title={scene.render.prompt}>
+            Last render: {describeRender(scene.render)}
+          </p>
+          <button
+            onClick={onReproduce}
+            disabled={busy}
+            className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+          >
+            <History size={14} /> Reproduce
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
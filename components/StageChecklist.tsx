@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Circle, RefreshCw, AlertCircle } from 'lucide-react';
+import { PipelineStage } from '../types';
+import { PIPELINE_STAGES, ProgressEvent, subscribeProgress, describeStageDetail, isBatchScope } from '../services/progress';
+
+interface StageChecklistProps {
+  running: boolean;
+  describeScope: (scope: string) => { title: string; stages: PipelineStage[] };
+}
+
+interface ScopeProgress {
+  scope: string | null;
+  stages: Partial<Record<PipelineStage, ProgressEvent>>;
+}
+
+// Stage-by-stage progress of the step running now (the script, or one scene's clip and voiceover)
+export const StageChecklist: React.FC<StageChecklistProps> = ({ running, describeScope }) => {
+  const [progress, setProgress] = useState<ScopeProgress>({ scope: null, stages: {} });
+  const [now, setNow] = useState(Date.now());
+
+  // Batch jobs have their own progress in the queue
+  useEffect(() => subscribeProgress((event) => {
+    if (isBatchScope(event.scope)) return;
+    setProgress((prev) => ({
+      scope: event.scope,
+      stages: { ...(prev.scope === event.scope ? prev.stages : {}), [event.stage]: event },
+    }));
+  }), []);
+
+  useEffect(() => {
+    if (!running) return;
+    const handle = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(handle);
+  }, [running]);
+
+  if (!running || !progress.scope) return null;
+
+  const { title, stages: scopeStages } = describeScope(progress.scope);
+  const stages = PIPELINE_STAGES.filter(({ stage }) => scopeStages.includes(stage));
+
+  return (
+    <div className="w-full bg-zinc-950/50 p-4 rounded-2xl border border-zinc-800/50 space-y-2">
+      <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{title}</h3>
+      <ul className="space-y-1">
+        {stages.map(({ stage, label }) => {
+          const event = progress.stages[stage];
+          const detail = event && describeStageDetail(event, now);
+          return (
+            <li key={stage} className="flex items-center gap-2 text-xs">
+              {!event && <Circle size={12} className="text-zinc-700" />}
+              {event?.state === 'active' && <RefreshCw size={12} className="text-purple-400 animate-spin" />}
+              {event?.state === 'done' && <Check size={12} className="text-green-400" />}
+              {event?.state === 'error' && <AlertCircle size={12} className="text-red-400" />}
+              <span className={event ? 'text-zinc-300' : 'text-zinc-600'}>{label}</span>
+              {detail && <span className="ml-auto text-zinc-500 tabular-nums">{detail}</span>}
+            </li>
+          );
+        })}
+      </ul>
+      {progress.stages.download?.state === 'active' && progress.stages.download.total && (
+        <div className="h-1 w-full bg-zinc-800 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-purple-500 transition-all"
+            style={{ width: `${((progress.stages.download.loaded || 0) / progress.stages.download.total) * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
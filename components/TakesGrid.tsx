@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layers, Play, Pause, Star, Trash2 } from 'lucide-react';
+import { AspectRatio, Scene, Take } from '../types';
+import { getAudioContext } from '../services/audioUtils';
+import { describeRender } from '../services/videoSettings';
+
+interface TakesGridProps {
+  scene: Scene;
+  aspectRatio: AspectRatio;
+  busy: boolean;
+  onChoose: (takeId: string) => void;
+  onDiscard: (takeId: string) => void;
+}
+
+const DRIFT_TOLERANCE = 0.1;
+
+// Side-by-side comparison of every take of a scene. All takes play together from the
+// start, slaved to the first one, with the scene's narration on top.
+export const TakesGrid: React.FC<TakesGridProps> = ({ scene, aspectRatio, busy, onChoose, onDiscard }) => {
+  const [playing, setPlaying] = useState(false);
+  const videoRefs = useRef<(HTMLVideoElement | null)[]>([]);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const inUse: Take = { id: 'in-use', videoUrl: scene.videoUrl!, render: scene.render };
+  const takes = [inUse, ...(scene.takes || [])];
+
+  const stopNarration = () => {
+    if (sourceRef.current) {
+      try { sourceRef.current.stop(); } catch (e) {}
+      sourceRef.current.disconnect();
+      sourceRef.current = null;
+    }
+  };
+
+  const stop = () => {
+    videoRefs.current.forEach((video) => video?.pause());
+    stopNarration();
+    setPlaying(false);
+  };
+
+  const play = () => {
+    const videos = videoRefs.current.filter((v): v is HTMLVideoElement => !!v);
+    videos.forEach((video) => {
+      video.currentTime = 0;
+      video.play();
+    });
+    if (scene.audioBuffer) {
+      const ctx = getAudioContext();
+      const source = ctx.createBufferSource();
+      source.buffer = scene.audioBuffer;
+      source.connect(ctx.destination);
+      source.start(ctx.currentTime + scene.audioOffset);
+      sourceRef.current = source;
+    }
+    setPlaying(true);
+  };
+
+  // Keep the followers on the leader's clock
+  useEffect(() => {
+    if (!playing) return;
+    let handle = 0;
+    const tick = () => {
+      const [leader, ...followers] = videoRefs.current;
+      if (leader) {
+        followers.forEach((video) => {
+          if (video && !video.ended && Math.abs(video.currentTime - leader.currentTime) > DRIFT_TOLERANCE) {
+            video.currentTime = leader.currentTime;
+          }
+        });
+        if (leader.ended) stop();
+      }
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [playing]);
+
+  // A take was chosen or discarded: start the comparison over
+  useEffect(() => stop, [scene.videoUrl, scene.takes]);
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <Layers className="w-4 h-4" /> Takes · {takes.length}
+        </h3>
+        <button
+          onClick={playing ? stop : play}
+          className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors"
+        >
+          {playing ? <Pause size={14} /> : <Play size={14} />} {playing ? 'Stop' : 'Play all'}
+        </button>
+      </div>
+
+      <div className={`grid gap-3 ${aspectRatio === AspectRatio.Landscape ? 'grid-cols-2' : 'grid-cols-3'}`}>
+        {takes.map((take, index) => {
+          const isInUse = take.id === inUse.id;
+          return (
+            <div key={take.id} className={`space-y-1 p-1 rounded-lg border ${isInUse ? 'border-purple-500/50' : 'border-zinc-800/50'}`}>
+              <video
+                ref={(el) => { videoRefs.current[index] = el; }}
+                src={take.videoUrl}
+                muted
+                playsInline
+                className={`w-full rounded bg-black ${aspectRatio === AspectRatio.Landscape ? 'aspect-video' : 'aspect-[9/16]'} object-cover`}
+              />
+              <div className="flex items-center gap-2 px-1">
+                <span className="text-xs text-zinc-500 truncate flex-1" title={take.render ? describeRender(take.render) : undefined}>
+                  {isInUse ? 'In use' : `Take ${index + 1}`}{take.render && ` · seed ${take.render.seed}`}
+                </span>
+                {isInUse ? (
+                  <Star size={14} className="text-amber-400 fill-current" />
+                ) : (
+                  <>
+                    <button onClick={() => onChoose(take.id)} disabled={busy} title="Use this take" className="p-0.5 text-zinc-500 hover:text-amber-400 disabled:opacity-30">
+                      <Star size={14} />
+                    </button>
+                    <button onClick={() => onDiscard(take.id)} disabled={busy} title="Discard take" className="p-0.5 text-zinc-500 hover:text-red-400 disabled:opacity-30">
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Play, Pause, Repeat } from 'lucide-react';
+import { TimelineEntry } from '../hooks/usePlayback';
+
+interface TransportBarProps {
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  timeline: TimelineEntry[];
+  activeId: string | null;
+  loop: boolean;
+  playbackRate: number;
+  onToggle: () => void;
+  onSeek: (time: number) => void;
+  onLoopChange: (loop: boolean) => void;
+  onRateChange: (rate: number) => void;
+}
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const formatTime = (seconds: number): string => {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const TransportBar: React.FC<TransportBarProps> = ({
+  isPlaying,
+  currentTime,
+  duration,
+  timeline,
+  activeId,
+  loop,
+  playbackRate,
+  onToggle,
+  onSeek,
+  onLoopChange,
+  onRateChange,
+}) => {
+  return (
+    <div className="flex items-center gap-3 bg-zinc-950/50 px-4 py-3 rounded-2xl border border-zinc-800/50">
+      <button onClick={onToggle} className="text-zinc-300 hover:text-white" title={isPlaying ? 'Pause' : 'Play'}>
+        {isPlaying ? <Pause size={18} className="fill-current" /> : <Play size={18} className="fill-current" />}
+      </button>
+
+      <span className="text-xs text-zinc-500 tabular-nums w-20">
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </span>
+
+      {/* Scrubber with one band per scene */}
+      <div className="relative flex-1 h-6 flex items-center">
+        <div className="absolute inset-x-0 h-1.5 flex gap-0.5 rounded-full overflow-hidden">
+          {timeline.map((entry) => (
+            <div
+              key={entry.id}
+              className={entry.id === activeId ? 'bg-purple-500/60' : 'bg-zinc-700'}
+              style={{ width: duration > 0 ? `${(entry.duration / duration) * 100}%` : 0 }}
+            />
+          ))}
+        </div>
+        <div
+          className="absolute h-3 w-3 rounded-full bg-white shadow pointer-events-none -translate-x-1/2"
+          style={{ left: duration > 0 ? `${(currentTime / duration) * 100}%` : 0 }}
+        />
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.01}
+          value={Math.min(currentTime, duration)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+          aria-label="Seek"
+        />
+      </div>
+
+      <button
+        onClick={() => onLoopChange(!loop)}
+        title="Loop"
+        className={`p-1 rounded ${loop ? 'text-purple-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+      >
+        <Repeat size={16} />
+      </button>
+
+      <select
+        value={playbackRate}
+        onChange={(e) => onRateChange(Number(e.target.value))}
+        className="bg-zinc-950 border border-zinc-800 rounded-lg px-1 py-0.5 text-xs text-zinc-300 focus:outline-none"
+        title="Playback speed"
+      >
+        {PLAYBACK_RATES.map((rate) => (
+          <option key={rate} value={rate}>{rate}x</option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Wallet, Trash2 } from 'lucide-react';
+import {
+  Budget,
+  PriceTable,
+  UsageEntry,
+  listUsage,
+  getUsageTotals,
+  getPriceTable,
+  savePriceTable,
+  getBudget,
+  saveBudget,
+  clearUsage,
+  subscribeUsage,
+} from '../services/usageLedger';
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 3 : 2)}`;
+
+const field = 'bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none';
+
+const PRICE_FIELDS: { key: keyof PriceTable[string]; label: string }[] = [
+  { key: 'perCall', label: 'per call' },
+  { key: 'perSecond', label: 'per output second' },
+  { key: 'perThousandChars', label: 'per 1K input chars' },
+];
+
+export const UsagePanel: React.FC = () => {
+  const [entries, setEntries] = useState<UsageEntry[]>(listUsage);
+  const [prices, setPrices] = useState<PriceTable>(getPriceTable);
+  const [budget, setBudget] = useState<Budget>(getBudget);
+  const [showPrices, setShowPrices] = useState(false);
+
+  useEffect(() => subscribeUsage(() => {
+    setEntries(listUsage());
+    setPrices(getPriceTable());
+    setBudget(getBudget());
+  }), []);
+
+  const totals = getUsageTotals(entries);
+  const recent = entries.slice(-8).reverse();
+  const overBudget = budget.monthlyLimit !== null && totals.month > budget.monthlyLimit;
+
+  const setPrice = (model: string, key: keyof PriceTable[string], value: string) => {
+    const price = { ...prices[model], [key]: value === '' ? undefined : Number(value) };
+    savePriceTable({ ...prices, [model]: price });
+  };
+
+  return (
+    <div className="mt-12 bg-zinc-900/50 p-8 rounded-3xl border border-zinc-800 backdrop-blur-xl shadow-xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <Wallet className="w-4 h-4" /> Usage & Budget
+        </h2>
+        <button onClick={clearUsage} className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors">
+          <Trash2 size={14} /> Clear ledger
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-zinc-950/50 p-4 rounded-xl border border-zinc-800/50">
+          <p className="text-xs text-zinc-500">This session · {totals.calls} calls</p>
+          <p className="text-2xl font-bold text-zinc-100">{formatCost(totals.session)}</p>
+        </div>
+        <div className={`bg-zinc-950/50 p-4 rounded-xl border ${overBudget ? 'border-red-800' : 'border-zinc-800/50'}`}>
+          <p className="text-xs text-zinc-500">This month</p>
+          <p className={`text-2xl font-bold ${overBudget ? 'text-red-300' : 'text-zinc-100'}`}>
+            {formatCost(totals.month)}
+            {budget.monthlyLimit !== null && <span className="text-sm text-zinc-500 font-normal"> / ${budget.monthlyLimit.toFixed(2)}</span>}
+          </p>
+        </div>
+        <div className="bg-zinc-950/50 p-4 rounded-xl border border-zinc-800/50 space-y-2">
+          <p className="text-xs text-zinc-500">Monthly budget (USD)</p>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={budget.monthlyLimit ?? ''}
+              placeholder="None"
+              onChange={(e) => saveBudget({ ...budget, monthlyLimit: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+              className={`${field} w-20`}
+            />
+            <select value={budget.mode} onChange={(e) => saveBudget({ ...budget, mode: e.target.value as Budget['mode'] })} className={field}>
+              <option value="warn">Warn</option>
+              <option value="block">Block</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {recent.length > 0 && (
+        <table className="w-full text-xs text-zinc-400">
+          <thead>
+            <tr className="text-left text-zinc-600">
+              <th className="font-medium pb-2">When</th>
+              <th className="font-medium pb-2">Call</th>
+              <th className="font-medium pb-2">Model</th>
+              <th className="font-medium pb-2 text-right">Input</th>
+              <th className="font-medium pb-2 text-right">Output</th>
+              <th className="font-medium pb-2 text-right">Latency</th>
+              <th className="font-medium pb-2 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recent.map((e) => (
+              <tr key={e.id} className={e.ok ? '' : 'text-red-400/70'}>
+                <td>{new Date(e.at).toLocaleTimeString()}</td>
+                <td>{e.kind}{!e.ok && ' (failed)'}</td>
+                <td className="truncate max-w-[12rem]">{e.model}</td>
+                <td className="text-right">{e.inputChars} chars</td>
+                <td className="text-right">{e.outputSeconds ? `${e.outputSeconds.toFixed(1)}s` : '—'}</td>
+                <td className="text-right">{(e.latencyMs / 1000).toFixed(1)}s</td>
+                <td className="text-right">{formatCost(e.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="space-y-3">
+        <button onClick={() => setShowPrices(!showPrices)} className="text-xs text-zinc-500 hover:text-zinc-300">
+          {showPrices ? 'Hide' : 'Edit'} price table
+        </button>
+        {showPrices && (
+          <div className="space-y-2">
+            {Object.keys(prices).map((model) => (
+              <div key={model} className="flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+                <span className="w-56 truncate font-mono">{model}</span>
+                {PRICE_FIELDS.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-1">
+                    $<input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={prices[model][key] ?? ''}
+                      onChange={(e) => setPrice(model, key, e.target.value)}
+                      className={`${field} w-20`}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            ))}
+            <p className="text-xs text-zinc-600">Estimates only; check your provider's billing page for actual charges.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Settings2, Dices, Lock, Unlock } from 'lucide-react';
+import { VideoResolution, VideoSettings } from '../types';
+import { CLIP_DURATIONS, FULL_HD_CLIP_DURATION, allowsClipDuration, randomSeed, MAX_SEED, MAX_TAKES } from '../services/videoSettings';
+
+interface VideoSettingsFormProps {
+  settings: VideoSettings;
+  onChange: (patch: Partial<VideoSettings>) => void;
+}
+
+const field = 'w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:ring-2 focus:ring-purple-500/50';
+
+export const VideoSettingsForm: React.FC<VideoSettingsFormProps> = ({ settings, onChange }) => {
+  const seedLocked = settings.seed !== null;
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-zinc-300 flex items-center gap-2">
+        <Settings2 className="w-4 h-4 text-pink-400" />
+        Video options
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <select
+          value={settings.resolution}
+          onChange={(e) => {
+            const resolution = e.target.value as VideoResolution;
+            const { durationSeconds } = settings;
+            onChange(durationSeconds !== null && !allowsClipDuration(resolution, durationSeconds)
+              ? { resolution, durationSeconds: FULL_HD_CLIP_DURATION }
+              : { resolution });
+          }}
+          className={field}
+          title="Resolution"
+        >
+          <option value="720p">720p</option>
+          <option value="1080p">1080p</option>
+        </select>
+        <select
+          value={settings.durationSeconds ?? ''}
+          onChange={(e) => onChange({ durationSeconds: e.target.value ? Number(e.target.value) : null })}
+          className={field}
+          title="Clip length"
+        >
+          <option value="">{settings.resolution === '1080p' ? `Match script (${FULL_HD_CLIP_DURATION}s at 1080p)` : 'Match script'}</option>
+          {CLIP_DURATIONS.map((d) => (
+            <option key={d} value={d} disabled={!allowsClipDuration(settings.resolution, d)}>{d}s clips</option>
+          ))}
+        </select>
+        <select
+          value={settings.takes}
+          onChange={(e) => onChange({ takes: Number(e.target.value) })}
+          className={field}
+          title="Takes per scene"
+        >
+          {Array.from({ length: MAX_TAKES }, (_, i) => i + 1).map((n) => (
+            <option key={n} value={n}>{n === 1 ? '1 take' : `${n} takes`}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            max={MAX_SEED}
+            value={settings.seed ?? ''}
+            placeholder="Random"
+            onChange={(e) => onChange({ seed: e.target.value === '' ? null : Math.min(MAX_SEED, Math.max(0, Math.floor(Number(e.target.value)))) })}
+            className={`${field} min-w-0`}
+            title="Seed"
+          />
+          <button
+            onClick={() => onChange({ seed: seedLocked ? null : randomSeed() })}
+            title={seedLocked ? 'Use a random seed per clip' : 'Lock a seed'}
+            className="p-1 text-zinc-500 hover:text-white"
+          >
+            {seedLocked ? <Lock size={14} /> : <Unlock size={14} />}
+          </button>
+          {seedLocked && (
+            <button onClick={() => onChange({ seed: randomSeed() })} title="New seed" className="p-1 text-zinc-500 hover:text-white">
+              <Dices size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+      <input
+        value={settings.negativePrompt}
+        onChange={(e) => onChange({ negativePrompt: e.target.value })}
+        placeholder="Negative prompt for every clip, e.g. text, watermark, distorted faces"
+        className={field}
+      />
+    </div>
+  );
+};
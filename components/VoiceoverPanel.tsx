@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Square, Upload, Bot, RefreshCw } from 'lucide-react';
+import { Scene, VoiceSource } from '../types';
+import { startVoiceRecording, VoiceRecording } from '../services/voiceover';
+
+interface VoiceoverPanelProps {
+  scene: Scene;
+  busy: boolean;
+  onImport: (file: Blob, source: VoiceSource) => Promise<void>;
+  onUseTts: () => void;
+}
+
+const SOURCE_LABELS: Record<VoiceSource, string> = {
+  tts: 'TTS voice',
+  recording: 'Microphone recording',
+  upload: 'Uploaded file',
+};
+
+// Replaces a scene's narration with a microphone take or an audio file
+export const VoiceoverPanel: React.FC<VoiceoverPanelProps> = ({ scene, busy, onImport, onUseTts }) => {
+  const [recording, setRecording] = useState<VoiceRecording | null>(null);
+  const [recordStart, setRecordStart] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const recordingRef = useRef<VoiceRecording | null>(null);
+
+  useEffect(() => {
+    if (!recording) return;
+    const handle = setInterval(() => setElapsed((Date.now() - recordStart) / 1000), 200);
+    return () => clearInterval(handle);
+  }, [recording, recordStart]);
+
+  // Switching scenes (or closing the panel) mid-take throws the take away
+  useEffect(() => () => {
+    recordingRef.current?.cancel();
+    recordingRef.current = null;
+    setRecording(null);
+  }, [scene.id]);
+
+  const importFile = async (file: Blob, source: VoiceSource) => {
+    setImporting(true);
+    try {
+      await onImport(file, source);
+    } catch (err: any) {
+      setError(err.message || 'Could not import the voiceover.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const toggleRecording = async () => {
+    setError(null);
+    if (recording) {
+      const take = recording;
+      recordingRef.current = null;
+      setRecording(null);
+      await importFile(await take.stop(), 'recording');
+      return;
+    }
+    try {
+      recordingRef.current = await startVoiceRecording();
+      setRecording(recordingRef.current);
+      setRecordStart(Date.now());
+      setElapsed(0);
+    } catch (err: any) {
+      setError(err.name === 'NotAllowedError' ? 'Microphone access was denied.' : err.message || 'Could not start recording.');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    setError(null);
+    if (file) await importFile(file, 'upload');
+  };
+
+  const source = scene.audioBuffer ? scene.voiceSource || 'tts' : null;
+
+  return (
+    <div className="bg-zinc-950/50 p-6 rounded-2xl border border-zinc-800/50 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-400 uppercase tracking-wider flex items-center gap-2">
+          <Mic className="w-4 h-4" /> Voiceover
+        </h3>
+        <span className="text-xs text-zinc-500">
+          {source ? `${SOURCE_LABELS[source]} · ${scene.audioBuffer!.duration.toFixed(1)}s` : 'No narration yet'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={toggleRecording}
+          disabled={(busy || importing) && !recording}
+          className={`text-xs flex items-center gap-1 transition-colors disabled:opacity-50 ${recording ? 'text-red-400 hover:text-red-300' : 'text-zinc-500 hover:text-white disabled:hover:text-zinc-500'}`}
+        >
+          {recording ? <><Square size={14} className="fill-current" /> Stop · {elapsed.toFixed(1)}s</> : <><Mic size={14} /> Record</>}
+        </button>
+        <button
+          onClick={() => fileRef.current?.click()}
+          disabled={busy || importing || !!recording}
+          className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500"
+        >
+          {importing ? <RefreshCw size={14} className="animate-spin" /> : <Upload size={14} />} Upload audio
+        </button>
+        <input ref={fileRef} type="file" accept="audio/*,.wav,.mp3,.m4a,.ogg,.webm" className="hidden" onChange={handleFile} />
+        {source && source !== 'tts' && (
+          <button
+            onClick={onUseTts}
+            disabled={busy || importing || !!recording}
+            className="text-xs flex items-center gap-1 text-zinc-500 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-zinc-500 ml-auto"
+          >
+            <Bot size={14} /> Back to TTS voice
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,317 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { getAudioContext } from '../services/audioUtils';
+import { getVideoDuration } from '../services/movieUtils';
+
+// One clip of the sequence plus the narration laid over it
+export interface PlaybackSegment {
+  id: string;
+  videoUrl: string | null;
+  audioBuffer: AudioBuffer | null;
+  audioOffset: number; // clip time at which the narration starts
+}
+
+export interface TimelineEntry {
+  id: string;
+  start: number; // seconds from the start of the sequence
+  duration: number;
+}
+
+// How far the narration may wander from the video clock before it is restarted in place
+const DRIFT_TOLERANCE = 0.1;
+
+// Plays a sequence of clips with Web Audio narration slaved to the video clock.
+// The <video> element is the master: the narration source is (re)started at the video's
+// position whenever it is missing or has drifted, so seeks, pauses, rate changes and
+// clip changes never leave the two out of step.
+// When a rendered soundtrack covering the whole sequence is supplied, it replaces the
+// per-segment narration and each clip plays its own slice of it.
+export const usePlayback = (segments: PlaybackSegment[], soundtrack: AudioBuffer | null = null) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [localTime, setLocalTime] = useState(0);
+  const [durations, setDurations] = useState<Record<string, number>>({});
+  const [loop, setLoop] = useState(false);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const [muted, setMutedState] = useState(false);
+
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
+  const audioClockRef = useRef<{ ctxTime: number; videoTime: number; rate: number } | null>(null);
+  const pendingSeekRef = useRef<number | null>(null);
+
+  const activeSegment = segments.find((s) => s.id === activeId) || null;
+  const filmed = segments.filter((s) => s.videoUrl);
+
+  // Sequence layout from the real clip lengths
+  let cursor = 0;
+  const timeline: TimelineEntry[] = filmed.map((s) => {
+    const entry = { id: s.id, start: cursor, duration: durations[s.videoUrl!] || 0 };
+    cursor += entry.duration;
+    return entry;
+  });
+  const duration = cursor;
+  const activeEntry = timeline.find((t) => t.id === activeId);
+  const currentTime = (activeEntry?.start || 0) + localTime;
+
+  // Probe durations of new clips (keyed by URL so a regenerated clip is re-measured)
+  useEffect(() => {
+    let cancelled = false;
+    segments.forEach((s) => {
+      if (!s.videoUrl || durations[s.videoUrl] !== undefined) return;
+      const url = s.videoUrl;
+      getVideoDuration(url)
+        .then((d) => !cancelled && setDurations((prev) => ({ ...prev, [url]: d })))
+        .catch((e) => console.error(e));
+    });
+    return () => { cancelled = true; };
+  }, [segments]);
+
+  // Keep the selection valid as segments are added, removed or reordered
+  useEffect(() => {
+    if (!segments.some((s) => s.id === activeId)) {
+      setActiveId(segments[0]?.id || null);
+      setLocalTime(0);
+    }
+  }, [segments, activeId]);
+
+  // Audio
+
+  const stopAudio = () => {
+    if (sourceRef.current) {
+      try { sourceRef.current.stop(); } catch (e) {}
+      sourceRef.current.disconnect();
+      sourceRef.current = null;
+    }
+    audioClockRef.current = null;
+  };
+
+  // The buffer to play for the active clip and the clip time at which it starts
+  const activeTrack = (): { buffer: AudioBuffer; offset: number } | null => {
+    if (soundtrack && activeEntry) return { buffer: soundtrack, offset: -activeEntry.start };
+    if (activeSegment?.audioBuffer) return { buffer: activeSegment.audioBuffer, offset: activeSegment.audioOffset };
+    return null;
+  };
+
+  // Starts the narration so that it lines up with the given clip time
+  const startAudio = (videoTime: number) => {
+    stopAudio();
+    const track = activeTrack();
+    if (!track) return;
+    const { buffer } = track;
+    const position = videoTime - track.offset;
+    if (position >= buffer.duration) return;
+
+    const ctx = getAudioContext();
+    if (!gainRef.current || gainRef.current.context !== ctx) {
+      gainRef.current = ctx.createGain();
+      gainRef.current.connect(ctx.destination);
+    }
+    gainRef.current.gain.value = muted ? 0 : 1;
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = playbackRate;
+    source.connect(gainRef.current);
+    // Before the offset, schedule the start instead of skipping into the buffer
+    const delay = position < 0 ? -position / playbackRate : 0;
+    source.start(ctx.currentTime + delay, Math.max(0, position));
+
+    sourceRef.current = source;
+    audioClockRef.current = { ctxTime: ctx.currentTime, videoTime, rate: playbackRate };
+  };
+
+  // The clip time the narration is aligned to right now, according to the audio clock
+  const audioPosition = (): number | null => {
+    const clock = audioClockRef.current;
+    if (!clock) return null;
+    return clock.videoTime + (getAudioContext().currentTime - clock.ctxTime) * clock.rate;
+  };
+
+  // While playing: publish the clock and correct narration drift every frame
+  useEffect(() => {
+    if (!isPlaying) return;
+    let handle = 0;
+    const tick = () => {
+      const video = videoRef.current;
+      if (video && !video.paused && !video.seeking) {
+        setLocalTime(video.currentTime);
+        const track = activeTrack();
+        if (track && video.currentTime < track.offset + track.buffer.duration) {
+          const position = audioPosition();
+          if (position === null || Math.abs(position - video.currentTime) > DRIFT_TOLERANCE) {
+            startAudio(video.currentTime);
+          }
+        }
+      }
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [isPlaying, activeSegment, activeEntry?.start, soundtrack, playbackRate, muted]);
+
+  // A new mix was rendered: swap it in at the current position
+  useEffect(() => stopAudio(), [soundtrack]);
+
+  // Clean up
+  useEffect(() => stopAudio, []);
+
+  // Transport
+
+  const play = () => {
+    const video = videoRef.current;
+    if (!video || !activeSegment?.videoUrl) return;
+
+    // Finished the whole sequence: start again from the top
+    if (video.ended) {
+      const first = filmed[0];
+      if (first && first.id !== activeId) {
+        pendingSeekRef.current = 0;
+        setActiveId(first.id);
+        setLocalTime(0);
+        setIsPlaying(true);
+        return;
+      }
+      video.currentTime = 0;
+    }
+    video.play();
+  };
+
+  const pause = () => {
+    videoRef.current?.pause();
+    stopAudio();
+    setIsPlaying(false);
+  };
+
+  const toggle = () => (isPlaying ? pause() : play());
+
+  // Seek within the whole sequence
+  const seek = (time: number) => {
+    const target = Math.max(0, Math.min(time, duration));
+    const entry = timeline.find((t) => target < t.start + t.duration) || timeline[timeline.length - 1];
+    if (!entry) return;
+
+    const local = Math.min(target - entry.start, Math.max(0, entry.duration - 0.01));
+    stopAudio();
+    setLocalTime(local);
+    if (entry.id === activeId && videoRef.current) {
+      videoRef.current.currentTime = local;
+    } else {
+      pendingSeekRef.current = local;
+      setActiveId(entry.id);
+    }
+  };
+
+  // Jump to a segment without playing it
+  const select = (id: string | null) => {
+    pause();
+    pendingSeekRef.current = null;
+    setActiveId(id);
+    setLocalTime(0);
+  };
+
+  const setPlaybackRate = (rate: number) => {
+    if (videoRef.current) videoRef.current.playbackRate = rate;
+    setPlaybackRateState(rate);
+    // The narration clock changed speed; the sync loop restarts it at the video position
+    stopAudio();
+  };
+
+  const setMuted = (value: boolean) => {
+    setMutedState(value);
+    if (gainRef.current) {
+      gainRef.current.gain.value = value ? 0 : 1;
+    }
+    if (videoRef.current) {
+      videoRef.current.muted = value; // Sync video mute too just in case Veo adds audio later
+    }
+  };
+
+  // Video events
+
+  const handlePlay = () => setIsPlaying(true);
+
+  const handlePause = () => {
+    // The browser pauses right before 'ended'; let handleEnded decide what happens next
+    if (videoRef.current?.ended) return;
+    stopAudio();
+    setIsPlaying(false);
+  };
+
+  const handleSeeking = () => {
+    stopAudio();
+    if (videoRef.current) setLocalTime(videoRef.current.currentTime);
+  };
+
+  const handleTimeUpdate = () => {
+    if (!isPlaying && videoRef.current) setLocalTime(videoRef.current.currentTime);
+  };
+
+  // Advance to the next filmed segment so the sequence plays continuously
+  const handleEnded = () => {
+    stopAudio();
+    const index = filmed.findIndex((s) => s.id === activeId);
+    const next = filmed[index + 1] || (loop ? filmed[0] : null);
+
+    if (!next) {
+      setIsPlaying(false);
+      return;
+    }
+    if (next.id === activeId && videoRef.current) {
+      videoRef.current.currentTime = 0;
+      videoRef.current.play();
+      return;
+    }
+    pendingSeekRef.current = 0;
+    setActiveId(next.id);
+    setLocalTime(0);
+  };
+
+  // A new clip finished loading: apply any pending seek and carry on playing
+  const handleLoadedData = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.playbackRate = playbackRate;
+    video.muted = muted;
+    if (pendingSeekRef.current !== null) {
+      video.currentTime = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+    }
+    if (isPlaying) video.play();
+  };
+
+  const videoProps: React.VideoHTMLAttributes<HTMLVideoElement> & { ref: React.RefObject<HTMLVideoElement | null> } = {
+    ref: videoRef,
+    src: activeSegment?.videoUrl || undefined,
+    playsInline: true,
+    onPlay: handlePlay,
+    onPause: handlePause,
+    onSeeking: handleSeeking,
+    onTimeUpdate: handleTimeUpdate,
+    onEnded: handleEnded,
+    onLoadedData: handleLoadedData,
+  };
+
+  return {
+    videoRef,
+    videoProps,
+    activeId,
+    activeSegment,
+    select,
+    isPlaying,
+    play,
+    pause,
+    toggle,
+    seek,
+    currentTime,
+    localTime,
+    duration,
+    timeline,
+    loop,
+    setLoop,
+    playbackRate,
+    setPlaybackRate,
+    muted,
+    setMuted,
+  };
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { SampleFormat, decodePcm, encodePcm, parseWavHeader, decodeWav, encodeWav, resample, resampleAudio } from "./audioCodec";
+
+const FORMATS: SampleFormat[] = ['pcm16', 'pcm24', 'pcm32', 'float32'];
+
+// Quantisation step of each format. Positive samples are written scaled by 2^n - 1 and read
+// back divided by 2^n, so a round trip may be off by a little over one step.
+const STEP: Record<SampleFormat, number> = {
+  pcm16: 1 / 32768,
+  pcm24: 1 / 8388608,
+  pcm32: 1 / 2147483648,
+  float32: 1e-7,
+};
+
+const sine = (frequency: number, sampleRate: number, length: number, phase: number = 0) =>
+  Float32Array.from({ length }, (_, i) => 0.8 * Math.sin((2 * Math.PI * frequency * i) / sampleRate + phase));
+
+const maxError = (a: Float32Array, b: Float32Array) => a.reduce((max, value, i) => Math.max(max, Math.abs(value - b[i])), 0);
+
+// A hand-built WAV: WAVE_FORMAT_EXTENSIBLE header, a LIST chunk of odd size before the data
+const extensibleWav = (channels: Float32Array[], sampleRate: number): Uint8Array => {
+  const pcm = encodePcm(channels, 'pcm24');
+  const list = new TextEncoder().encode('INFOabc'); // 7 bytes, padded to 8
+  const bytes = new Uint8Array(12 + 8 + 40 + 8 + list.length + 1 + 8 + pcm.byteLength);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, text: string) => bytes.set(new TextEncoder().encode(text), offset);
+
+  tag(0, 'RIFF');
+  view.setUint32(4, bytes.byteLength - 8, true);
+  tag(8, 'WAVE');
+  tag(12, 'fmt ');
+  view.setUint32(16, 40, true);
+  view.setUint16(20, 0xfffe, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels.length * 3, true);
+  view.setUint16(32, channels.length * 3, true);
+  view.setUint16(34, 24, true);
+  view.setUint16(36, 22, true); // extension size
+  view.setUint16(38, 24, true); // valid bits
+  view.setUint32(40, 0b11, true); // channel mask
+  view.setUint16(44, 1, true); // subformat GUID starts with the PCM tag
+  tag(60, 'LIST');
+  view.setUint32(64, list.length, true);
+  bytes.set(list, 68);
+  tag(76, 'data');
+  view.setUint32(80, pcm.byteLength, true);
+  bytes.set(pcm, 84);
+  return bytes;
+};
+
+describe('PCM', () => {
+  it.each(FORMATS)('round-trips stereo %s', (format) => {
+    const channels = [sine(440, 24000, 1000), sine(220, 24000, 1000, 1)];
+    const decoded = decodePcm(encodePcm(channels, format), 2, format);
+
+    expect(decoded).toHaveLength(2);
+    decoded.forEach((data, c) => {
+      expect(data).toHaveLength(1000);
+      expect(maxError(data, channels[c])).toBeLessThanOrEqual(1.5 * STEP[format]);
+    });
+  });
+
+  it('clamps samples outside -1..1 in integer formats', () => {
+    const [data] = decodePcm(encodePcm([Float32Array.from([1.5, -1.5])], 'pcm16'), 1, 'pcm16');
+    expect(data[0]).toBeCloseTo(1, 4);
+    expect(data[1]).toBe(-1);
+  });
+});
+
+describe('WAV', () => {
+  it.each(FORMATS)('round-trips a stereo %s file', (format) => {
+    const audio = { sampleRate: 48000, channels: [sine(440, 48000, 500), sine(660, 48000, 500)] };
+    const bytes = encodeWav(audio, format);
+
+    const info = parseWavHeader(bytes);
+    expect(info).toMatchObject({ format, numChannels: 2, sampleRate: 48000, dataOffset: 44 });
+
+    const decoded = decodeWav(bytes);
+    expect(decoded.sampleRate).toBe(48000);
+    decoded.channels.forEach((data, c) => expect(maxError(data, audio.channels[c])).toBeLessThanOrEqual(1.5 * STEP[format]));
+  });
+
+  it('reads an extensible header and skips other chunks', () => {
+    const channels = [sine(440, 44100, 300), sine(880, 44100, 300)];
+    const bytes = extensibleWav(channels, 44100);
+
+    expect(parseWavHeader(bytes)).toMatchObject({ format: 'pcm24', numChannels: 2, sampleRate: 44100, dataOffset: 84 });
+    decodeWav(bytes).channels.forEach((data, c) => expect(maxError(data, channels[c])).toBeLessThanOrEqual(1.5 * STEP.pcm24));
+  });
+
+  it('rejects files that are not WAV', () => {
+    expect(() => parseWavHeader(new TextEncoder().encode('not a wav file at all'))).toThrow('Not a WAV file.');
+  });
+});
+
+describe('resample', () => {
+  it('doubles 24 kHz to 48 kHz and back', () => {
+    const original = sine(440, 24000, 2400);
+    const up = resample(original, 24000, 48000);
+    expect(up).toHaveLength(4800);
+    // Away from the edges the upsampled signal is the same tone at the new rate
+    expect(maxError(up.subarray(200, 4600), sine(440, 48000, 4800).subarray(200, 4600))).toBeLessThan(0.01);
+
+    const down = resample(up, 48000, 24000);
+    expect(down).toHaveLength(2400);
+    expect(maxError(down.subarray(100, 2300), original.subarray(100, 2300))).toBeLessThan(0.01);
+  });
+
+  it('removes tones above the new Nyquist frequency when downsampling', () => {
+    const down = resample(sine(18000, 48000, 4800), 48000, 24000);
+    expect(Math.max(...down.subarray(200, 2200).map(Math.abs))).toBeLessThan(0.05);
+  });
+
+  it('resamples every channel and reports the new rate', () => {
+    const audio = resampleAudio({ sampleRate: 24000, channels: [sine(440, 24000, 240), sine(220, 24000, 240)] }, 48000);
+    expect(audio.sampleRate).toBe(48000);
+    expect(audio.channels.map((c) => c.length)).toEqual([480, 480]);
+  });
+});
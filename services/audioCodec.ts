@@ -0,0 +1,215 @@
+// PCM and WAV codec. Everything here works on plain Float32Array channels, so it runs
+// the same with or without an AudioContext; audioUtils wraps it for AudioBuffers.
+
+export type SampleFormat = 'pcm16' | 'pcm24' | 'pcm32' | 'float32';
+
+export interface PcmAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export interface WavInfo {
+  format: SampleFormat;
+  numChannels: number;
+  sampleRate: number;
+  dataOffset: number; // byte offset of the sample data
+  dataLength: number; // bytes
+}
+
+const BYTES_PER_SAMPLE: Record<SampleFormat, number> = {
+  pcm16: 2,
+  pcm24: 3,
+  pcm32: 4,
+  float32: 4,
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const clamp = (sample: number) => Math.max(-1, Math.min(1, sample));
+
+// Sample access through a DataView, so odd offsets and 24-bit frames are fine
+
+const readSample = (view: DataView, offset: number, format: SampleFormat): number => {
+  switch (format) {
+    case 'pcm16':
+      return view.getInt16(offset, true) / 32768;
+    case 'pcm24': {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    case 'pcm32':
+      return view.getInt32(offset, true) / 2147483648;
+    case 'float32':
+      return view.getFloat32(offset, true);
+  }
+};
+
+const writeSample = (view: DataView, offset: number, sample: number, format: SampleFormat) => {
+  const s = clamp(sample);
+  switch (format) {
+    case 'pcm16':
+      view.setInt16(offset, Math.round(s < 0 ? s * 32768 : s * 32767), true);
+      break;
+    case 'pcm24': {
+      const value = Math.round(s < 0 ? s * 8388608 : s * 8388607);
+      view.setUint8(offset, value & 0xff);
+      view.setUint8(offset + 1, (value >> 8) & 0xff);
+      view.setUint8(offset + 2, (value >> 16) & 0xff);
+      break;
+    }
+    case 'pcm32':
+      view.setInt32(offset, Math.round(s < 0 ? s * 2147483648 : s * 2147483647), true);
+      break;
+    case 'float32':
+      view.setFloat32(offset, sample, true);
+      break;
+  }
+};
+
+// Splits interleaved little-endian PCM into one array per channel
+export const decodePcm = (bytes: Uint8Array, numChannels: number = 1, format: SampleFormat = 'pcm16'): Float32Array[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frameSize = BYTES_PER_SAMPLE[format] * numChannels;
+  const frames = Math.floor(bytes.byteLength / frameSize);
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      channels[c][i] = readSample(view, i * frameSize + c * BYTES_PER_SAMPLE[format], format);
+    }
+  }
+  return channels;
+};
+
+// Interleaves channels into little-endian PCM
+export const encodePcm = (channels: Float32Array[], format: SampleFormat = 'pcm16'): Uint8Array => {
+  const frames = channels[0]?.length || 0;
+  const frameSize = BYTES_PER_SAMPLE[format] * channels.length;
+  const bytes = new Uint8Array(frames * frameSize);
+  const view = new DataView(bytes.buffer);
+
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((data, c) => writeSample(view, i * frameSize + c * BYTES_PER_SAMPLE[format], data[i], format));
+  }
+  return bytes;
+};
+
+// WAV
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// Walks the RIFF chunks for the format and the sample data; other chunks (LIST, fact...) are skipped
+export const parseWavHeader = (bytes: Uint8Array): WavInfo => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  let fmt: Omit<WavInfo, 'dataOffset' | 'dataLength'> | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let tag = view.getUint16(body, true);
+      if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        tag = view.getUint16(body + 24, true); // first two bytes of the subformat GUID
+      }
+      const bits = view.getUint16(body + 14, true);
+      const format: SampleFormat | null =
+        tag === WAVE_FORMAT_IEEE_FLOAT && bits === 32 ? 'float32'
+        : tag === WAVE_FORMAT_PCM && bits === 16 ? 'pcm16'
+        : tag === WAVE_FORMAT_PCM && bits === 24 ? 'pcm24'
+        : tag === WAVE_FORMAT_PCM && bits === 32 ? 'pcm32'
+        : null;
+      if (!format) {
+        throw new Error(`Unsupported WAV encoding (format ${tag}, ${bits}-bit).`);
+      }
+      fmt = { format, numChannels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true) };
+    } else if (id === 'data') {
+      if (!fmt) throw new Error('WAV data chunk comes before its format.');
+      // Streamed files may leave the size at 0 or 0xFFFFFFFF: take everything that is there
+      const available = bytes.byteLength - body;
+      const dataLength = size > 0 && size <= available ? size : available;
+      return { ...fmt, dataOffset: body, dataLength };
+    }
+    offset = body + size + (size % 2); // chunks are word aligned
+  }
+  throw new Error('WAV file has no audio data.');
+};
+
+export const decodeWav = (bytes: Uint8Array): PcmAudio => {
+  const info = parseWavHeader(bytes);
+  const data = bytes.subarray(info.dataOffset, info.dataOffset + info.dataLength);
+  return { sampleRate: info.sampleRate, channels: decodePcm(data, info.numChannels, info.format) };
+};
+
+export const encodeWav = (audio: PcmAudio, format: SampleFormat = 'pcm16'): Uint8Array => {
+  const numChannels = audio.channels.length;
+  const bytesPerSample = BYTES_PER_SAMPLE[format];
+  const pcm = encodePcm(audio.channels, format);
+  const bytes = new Uint8Array(44 + pcm.byteLength);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, bytes.byteLength - 8, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format === 'float32' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * numChannels * bytesPerSample, true); // bytes per second
+  view.setUint16(32, numChannels * bytesPerSample, true); // block align
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeTag(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  bytes.set(pcm, 44);
+  return bytes;
+};
+
+// Resampling
+
+const RESAMPLE_TAPS = 16; // sinc lobes either side of each output sample
+
+// Band-limited resampling with a Hann-windowed sinc. When downsampling, the cutoff
+// drops to the new Nyquist frequency so nothing folds back as aliasing.
+export const resample = (data: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate || data.length === 0) return data.slice();
+
+  const ratio = toRate / fromRate;
+  const cutoff = Math.min(1, ratio);
+  const radius = RESAMPLE_TAPS / cutoff; // in input samples
+  const output = new Float32Array(Math.max(1, Math.round(data.length * ratio)));
+
+  for (let i = 0; i < output.length; i++) {
+    const center = i / ratio;
+    const from = Math.max(0, Math.ceil(center - radius));
+    const to = Math.min(data.length - 1, Math.floor(center + radius));
+    let sum = 0;
+    let weights = 0;
+    for (let j = from; j <= to; j++) {
+      const x = j - center;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x * cutoff) / (Math.PI * x * cutoff);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / radius);
+      const weight = sinc * window;
+      sum += data[j] * weight;
+      weights += weight;
+    }
+    output[i] = weights > 0 ? sum / weights : 0;
+  }
+  return output;
+};
+
+export const resampleAudio = (audio: PcmAudio, toRate: number): PcmAudio => ({
+  sampleRate: toRate,
+  channels: audio.channels.map((data) => resample(data, audio.sampleRate, toRate)),
+});
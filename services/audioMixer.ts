@@ -0,0 +1,221 @@
+import { MixSettings, MovieData, MusicBed, Scene } from "../types";
+import { findSpeechBounds, detectSilences, audioBufferToWav } from "./audioUtils";
+import { GenerationError } from "./errors";
+
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  narrationVolume: 1,
+  musicVolume: 0.35,
+  ducking: true,
+  duckLevel: 0.3,
+  fadeIn: 1,
+  fadeOut: 1.5,
+  limiter: true,
+};
+
+const MIX_SAMPLE_RATE = 44100;
+const DUCK_ATTACK = 0.15;
+const DUCK_RELEASE = 0.4;
+
+// Where each filmed clip sits on the sequence timeline
+export interface MixTimelineEntry {
+  id: string;
+  start: number;
+  duration: number;
+}
+
+// Decodes an uploaded music file at the mix rate (the shared playback context runs at 24 kHz)
+export const decodeMusicFile = async (file: Blob, name: string): Promise<MusicBed> => {
+  const ctx = new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE);
+  try {
+    const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+    return { name, file, buffer };
+  } catch (e) {
+    throw new GenerationError('audio-decode', `Could not decode "${name}". Try a WAV, MP3 or OGG file.`, e);
+  }
+};
+
+// Where the shot of a timeline entry ends: its own clip plus any extension clips that follow
+// it directly. Narration runs on over extensions, so it is cut here rather than at the clip.
+export const shotEnd = (scenes: Scene[], timeline: MixTimelineEntry[], index: number): number => {
+  let last = index;
+  while (last + 1 < timeline.length && scenes.find((s) => s.id === timeline[last + 1].id)?.continues === timeline[index].id) {
+    last++;
+  }
+  return timeline[last].start + timeline[last].duration;
+};
+
+interface SpeechRange {
+  start: number;
+  end: number;
+}
+
+// Narration activity on the sequence timeline, used to drive the ducking envelope
+const findSpeechRanges = (movie: MovieData, timeline: MixTimelineEntry[]): SpeechRange[] => {
+  const ranges: SpeechRange[] = [];
+  for (const [index, entry] of timeline.entries()) {
+    const scene = movie.scenes.find((s) => s.id === entry.id);
+    if (!scene?.audioBuffer) continue;
+
+    const base = entry.start + scene.audioOffset;
+    const clipEnd = shotEnd(movie.scenes, timeline, index);
+    const bounds = findSpeechBounds(scene.audioBuffer);
+    const pauses = detectSilences(scene.audioBuffer, 0.6).filter((p) => p.start > bounds.start && p.end < bounds.end);
+
+    let from = bounds.start;
+    for (const pause of [...pauses, { start: bounds.end, end: bounds.end }]) {
+      const start = base + from;
+      const end = Math.min(clipEnd, base + pause.start);
+      if (end > start) ranges.push({ start, end });
+      from = pause.end;
+    }
+  }
+  return ranges;
+};
+
+// Renders the whole soundtrack — narration per scene at its offset, the music bed with
+// ducking and fades, through a master limiter — into one buffer. Playback, the muxed
+// export and the WAV download all use this same render.
+export const renderMix = async (movie: MovieData, timeline: MixTimelineEntry[]): Promise<AudioBuffer> => {
+  const totalDuration = timeline.reduce((end, t) => Math.max(end, t.start + t.duration), 0);
+  const channels = movie.music ? Math.max(1, movie.music.buffer.numberOfChannels) : 1;
+  const ctx = new OfflineAudioContext(channels, Math.max(1, Math.ceil(totalDuration * MIX_SAMPLE_RATE)), MIX_SAMPLE_RATE);
+  const { mix } = movie;
+
+  // Master bus: fades, then optional limiter
+  const master = ctx.createGain();
+  master.gain.setValueAtTime(mix.fadeIn > 0 ? 0 : 1, 0);
+  if (mix.fadeIn > 0) master.gain.linearRampToValueAtTime(1, Math.min(mix.fadeIn, totalDuration));
+  if (mix.fadeOut > 0) {
+    const fadeStart = Math.max(mix.fadeIn, totalDuration - mix.fadeOut);
+    master.gain.setValueAtTime(1, fadeStart);
+    master.gain.linearRampToValueAtTime(0, totalDuration);
+  }
+
+  if (mix.limiter) {
+    const limiter = ctx.createDynamicsCompressor();
+    limiter.threshold.value = -1;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.003;
+    limiter.release.value = 0.1;
+    master.connect(limiter);
+    limiter.connect(ctx.destination);
+  } else {
+    master.connect(ctx.destination);
+  }
+
+  // Narration track: each take starts at its offset and is cut at the end of its shot
+  const narrationGain = ctx.createGain();
+  narrationGain.gain.value = mix.narrationVolume;
+  narrationGain.connect(master);
+
+  for (const [index, entry] of timeline.entries()) {
+    const scene = movie.scenes.find((s) => s.id === entry.id);
+    if (!scene?.audioBuffer) continue;
+    const source = ctx.createBufferSource();
+    source.buffer = scene.audioBuffer;
+    source.connect(narrationGain);
+    source.start(entry.start + scene.audioOffset);
+    source.stop(shotEnd(movie.scenes, timeline, index));
+  }
+
+  // Music track, looped under the whole sequence and ducked while narration speaks
+  if (movie.music) {
+    const musicGain = ctx.createGain();
+    musicGain.gain.value = mix.musicVolume;
+    const duck = ctx.createGain();
+    duck.gain.setValueAtTime(1, 0);
+
+    if (mix.ducking) {
+      for (const range of findSpeechRanges(movie, timeline)) {
+        duck.gain.setTargetAtTime(mix.duckLevel, Math.max(0, range.start - DUCK_ATTACK), DUCK_ATTACK / 3);
+        duck.gain.setTargetAtTime(1, range.end, DUCK_RELEASE / 3);
+      }
+    }
+
+    const music = ctx.createBufferSource();
+    music.buffer = movie.music.buffer;
+    music.loop = true;
+    music.connect(musicGain);
+    musicGain.connect(duck);
+    duck.connect(master);
+    music.start(0);
+    music.stop(totalDuration);
+  }
+
+  return ctx.startRendering();
+};
+
+// A soft evolving pad: detuned oscillators on a slow chord progression plus filtered noise.
+// Deterministic, so the same duration always gives the same bed.
+export const synthesizeAmbient = async (duration: number): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(2, Math.ceil(duration * MIX_SAMPLE_RATE), MIX_SAMPLE_RATE);
+  const chords = [
+    [220, 261.63, 329.63],
+    [174.61, 220, 261.63],
+    [196, 246.94, 293.66],
+    [164.81, 207.65, 246.94],
+  ];
+  const chordLength = 4;
+
+  const padGain = ctx.createGain();
+  padGain.gain.value = 0.12;
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = 1200;
+  padGain.connect(filter);
+  filter.connect(ctx.destination);
+
+  for (let t = 0, i = 0; t < duration; t += chordLength, i++) {
+    const chord = chords[i % chords.length];
+    const end = Math.min(duration, t + chordLength + 1);
+    chord.forEach((frequency, voiceIndex) => {
+      [-4, 4].forEach((detune, side) => {
+        const osc = ctx.createOscillator();
+        osc.type = 'sawtooth';
+        osc.frequency.value = frequency;
+        osc.detune.value = detune;
+
+        const env = ctx.createGain();
+        env.gain.setValueAtTime(0, t);
+        env.gain.linearRampToValueAtTime(1 / chord.length, t + 1);
+        env.gain.setValueAtTime(1 / chord.length, Math.max(t + 1, end - 1));
+        env.gain.linearRampToValueAtTime(0, end);
+
+        const pan = ctx.createStereoPanner();
+        pan.pan.value = (side ? 0.4 : -0.4) * ((voiceIndex % 2) ? -1 : 1);
+
+        osc.connect(env);
+        env.connect(pan);
+        pan.connect(padGain);
+        osc.start(t);
+        osc.stop(end);
+      });
+    });
+  }
+
+  // Brown-ish noise for air
+  const noiseBuffer = ctx.createBuffer(1, ctx.length, MIX_SAMPLE_RATE);
+  const noise = noiseBuffer.getChannelData(0);
+  let last = 0;
+  let seed = 1;
+  for (let i = 0; i < noise.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    last = (last + 0.02 * ((seed / 2147483647) * 2 - 1)) / 1.02;
+    noise[i] = last * 3;
+  }
+  const noiseSource = ctx.createBufferSource();
+  noiseSource.buffer = noiseBuffer;
+  const noiseGain = ctx.createGain();
+  noiseGain.gain.value = 0.05;
+  noiseSource.connect(noiseGain);
+  noiseGain.connect(ctx.destination);
+  noiseSource.start(0);
+
+  return ctx.startRendering();
+};
+
+export const createAmbientBed = async (duration: number): Promise<MusicBed> => {
+  const buffer = await synthesizeAmbient(duration);
+  return { name: 'Ambient pad', file: audioBufferToWav(buffer), buffer };
+};
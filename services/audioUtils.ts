@@ -1,3 +1,13 @@
+import { PcmAudio, SampleFormat, decodePcm, decodeWav, encodeWav, resampleAudio } from "./audioCodec";
+
+// Define a type for the window object to include the cached audio context
+declare global {
+  interface Window {
+    // Helper to cache the audio context to reuse it
+    _audioContext?: AudioContext;
+  }
+}
+
 // Base64 decoding
 function decodeBase64(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -9,83 +19,193 @@ function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
+// Wraps decoded PCM in an AudioBuffer at the context's rate, resampling if they differ
+export function toAudioBuffer(audio: PcmAudio, ctx: BaseAudioContext): AudioBuffer {
+  const pcm = audio.sampleRate === ctx.sampleRate ? audio : resampleAudio(audio, ctx.sampleRate);
+  const buffer = ctx.createBuffer(pcm.channels.length, Math.max(1, pcm.channels[0]?.length || 0), pcm.sampleRate);
+  pcm.channels.forEach((data, c) => buffer.copyToChannel(data, c));
+  return buffer;
+}
+
+export function fromAudioBuffer(buffer: AudioBuffer): PcmAudio {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+  return { sampleRate: buffer.sampleRate, channels };
+}
+
 // PCM Decoding to AudioBuffer
-// Note: The Gemini API returns raw PCM 16-bit (usually). 
+// Note: The Gemini API returns raw 16-bit PCM at 24 kHz.
 // We need to convert this to an AudioBuffer for playback in the browser.
+// Accepts either the base64 payload from the API or raw interleaved PCM bytes.
 export async function decodeAudioData(
-  base64Data: string,
-  ctx: AudioContext,
+  data: string | Uint8Array,
+  ctx: BaseAudioContext,
   sampleRate: number = 24000,
-  numChannels: number = 1
+  numChannels: number = 1,
+  format: SampleFormat = 'pcm16'
 ): Promise<AudioBuffer> {
-  const bytes = decodeBase64(base64Data);
-  const dataInt16 = new Int16Array(bytes.buffer);
-  
-  // Create an AudioBuffer
-  const buffer = ctx.createBuffer(numChannels, dataInt16.length, sampleRate);
-  
-  // Fill the buffer with the PCM data converted to float [-1.0, 1.0]
-  const channelData = buffer.getChannelData(0);
-  for (let i = 0; i < dataInt16.length; i++) {
-    channelData[i] = dataInt16[i] / 32768.0;
-  }
-  
-  return buffer;
+  const bytes = typeof data === 'string' ? decodeBase64(data) : data;
+  return toAudioBuffer({ sampleRate, channels: decodePcm(bytes, numChannels, format) }, ctx);
 }
 
 // Helper to create a WAV blob from AudioBuffer (for downloading if needed)
-export function audioBufferToWav(buffer: AudioBuffer): Blob {
-  const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
-  const bufferArray = new ArrayBuffer(length);
-  const view = new DataView(bufferArray);
-  const channels = [];
-  let i;
-  let sample;
-  let offset = 0;
-  let pos = 0;
-
-  // write WAVE header
-  setUint32(0x46464952); // "RIFF"
-  setUint32(length - 8); // file length - 8
-  setUint32(0x45564157); // "WAVE"
-
-  setUint32(0x20746d66); // "fmt " chunk
-  setUint32(16); // length = 16
-  setUint16(1); // PCM (uncompressed)
-  setUint16(numOfChan);
-  setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2); // block-align
-  setUint16(16); // 16-bit (hardcoded in this example)
-
-  setUint32(0x61746164); // "data" - chunk
-  setUint32(length - pos - 4); // chunk length
-
-  // write interleaved data
-  for(i = 0; i < buffer.numberOfChannels; i++)
-    channels.push(buffer.getChannelData(i));
-
-  while(pos < buffer.length) {
-    for(i = 0; i < numOfChan; i++) {
-      // interleave channels
-      sample = Math.max(-1, Math.min(1, channels[i][pos])); // clamp
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767)|0; // scale to 16-bit signed int
-      view.setInt16(44 + offset, sample, true);
-      offset += 2;
+export function audioBufferToWav(buffer: AudioBuffer, format: SampleFormat = 'pcm16'): Blob {
+  return new Blob([encodeWav(fromAudioBuffer(buffer), format)], { type: 'audio/wav' });
+}
+
+export interface SilenceRange {
+  start: number; // seconds
+  end: number;
+}
+
+// Finds stretches of near-silence by windowed RMS over the first channel.
+// The threshold is relative to the loudest window so quiet recordings still split cleanly.
+export function detectSilences(
+  buffer: AudioBuffer,
+  minSilenceSeconds: number = 0.15,
+  windowSeconds: number = 0.02,
+  relativeThreshold: number = 0.08
+): SilenceRange[] {
+  const data = buffer.getChannelData(0);
+  const windowSize = Math.max(1, Math.floor(windowSeconds * buffer.sampleRate));
+  const windows = Math.ceil(data.length / windowSize);
+  const rms = new Float32Array(windows);
+  let peak = 0;
+
+  for (let w = 0; w < windows; w++) {
+    let sum = 0;
+    const start = w * windowSize;
+    const end = Math.min(data.length, start + windowSize);
+    for (let i = start; i < end; i++) {
+      sum += data[i] * data[i];
     }
-    pos++;
+    rms[w] = Math.sqrt(sum / (end - start));
+    peak = Math.max(peak, rms[w]);
   }
 
-  return new Blob([bufferArray], { type: 'audio/wav' });
+  const threshold = Math.max(0.001, peak * relativeThreshold);
+  const ranges: SilenceRange[] = [];
+  let silentFrom = -1;
 
-  function setUint16(data: number) {
-    view.setUint16(pos, data, true);
-    pos += 2;
+  for (let w = 0; w <= windows; w++) {
+    const silent = w < windows && rms[w] < threshold;
+    if (silent && silentFrom < 0) {
+      silentFrom = w;
+    } else if (!silent && silentFrom >= 0) {
+      const range = {
+        start: (silentFrom * windowSize) / buffer.sampleRate,
+        end: Math.min(buffer.duration, (w * windowSize) / buffer.sampleRate),
+      };
+      if (range.end - range.start >= minSilenceSeconds) ranges.push(range);
+      silentFrom = -1;
+    }
   }
 
-  function setUint32(data: number) {
-    view.setUint32(pos, data, true);
-    pos += 4;
+  return ranges;
+}
+
+// Start/end of the audible part of a buffer, ignoring leading and trailing silence
+export function findSpeechBounds(buffer: AudioBuffer): { start: number; end: number } {
+  const silences = detectSilences(buffer);
+  const leading = silences.find((s) => s.start <= 0.001);
+  const trailing = silences.find((s) => s.end >= buffer.duration - 0.001 && s !== leading);
+  const start = leading ? leading.end : 0;
+  const end = trailing ? trailing.start : buffer.duration;
+  return end > start ? { start, end } : { start: 0, end: buffer.duration };
+}
+
+// Copies the audible part of a buffer, keeping a little padding either side
+export function trimSilence(buffer: AudioBuffer, ctx: BaseAudioContext, padding: number = 0.05): AudioBuffer {
+  const bounds = findSpeechBounds(buffer);
+  const from = Math.max(0, Math.floor((bounds.start - padding) * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil((bounds.end + padding) * buffer.sampleRate));
+
+  const trimmed = ctx.createBuffer(buffer.numberOfChannels, Math.max(1, to - from), buffer.sampleRate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    trimmed.copyToChannel(buffer.getChannelData(c).subarray(from, to), c);
   }
+  return trimmed;
 }
+
+// Changes duration without changing pitch (WSOLA: windowed overlap-add, with each frame
+// shifted slightly to the position that best continues the previous one).
+// factor > 1 makes the audio longer, < 1 shorter.
+export function timeStretch(buffer: AudioBuffer, ctx: BaseAudioContext, factor: number): AudioBuffer {
+  const sampleRate = buffer.sampleRate;
+  const frame = Math.round(0.04 * sampleRate);
+  const synthesisHop = Math.floor(frame / 2);
+  const analysisHop = synthesisHop / factor;
+  const tolerance = Math.round(0.01 * sampleRate);
+  const outLength = Math.max(1, Math.round(buffer.length * factor));
+
+  const window = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frame - 1));
+  }
+
+  const input = buffer.getChannelData(0);
+  const sampleAt = (data: Float32Array, i: number) => (i >= 0 && i < data.length ? data[i] : 0);
+
+  // Pick frame positions on the first channel, then apply them to every channel
+  const positions: number[] = [];
+  let previous = 0;
+  for (let k = 0; k * synthesisHop < outLength; k++) {
+    const nominal = Math.round(k * analysisHop);
+    let best = nominal;
+    if (k > 0) {
+      const natural = previous + synthesisHop;
+      let bestScore = -Infinity;
+      for (let delta = -tolerance; delta <= tolerance; delta += 2) {
+        const candidate = nominal + delta;
+        let score = 0;
+        for (let i = 0; i < frame; i += 4) {
+          score += sampleAt(input, natural + i) * sampleAt(input, candidate + i);
+        }
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+    }
+    positions.push(best);
+    previous = best;
+  }
+
+  const stretched = ctx.createBuffer(buffer.numberOfChannels, outLength, sampleRate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    const out = new Float32Array(outLength + frame);
+    const norm = new Float32Array(outLength + frame);
+    positions.forEach((position, k) => {
+      const at = k * synthesisHop;
+      for (let i = 0; i < frame; i++) {
+        out[at + i] += sampleAt(data, position + i) * window[i];
+        norm[at + i] += window[i];
+      }
+    });
+    for (let i = 0; i < outLength; i++) {
+      if (norm[i] > 1e-3) out[i] /= norm[i];
+    }
+    stretched.copyToChannel(out.subarray(0, outLength), c);
+  }
+  return stretched;
+}
+
+// Reads a WAV blob (ours or an imported file) into an AudioBuffer
+export async function wavToAudioBuffer(blob: Blob, ctx: BaseAudioContext): Promise<AudioBuffer> {
+  return toAudioBuffer(decodeWav(new Uint8Array(await blob.arrayBuffer())), ctx);
+}
+
+// Helper to get AudioContext
+export const getAudioContext = (): AudioContext => {
+  if (!window._audioContext) {
+    window._audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  }
+  // Resume if suspended (browser policy)
+  if (window._audioContext.state === 'suspended') {
+     window._audioContext.resume();
+  }
+  return window._audioContext;
+};
@@ -0,0 +1,246 @@
+import { AspectRatio, VoiceName, GenerationStatus, GenerationProvider, MovieData } from "../types";
+import { createMovie } from "./movieUtils";
+import { buildVideoRequest, toRender } from "./videoSettings";
+import { trackOperation, untrackOperation } from "./operationManager";
+import { audioBufferToWav } from "./audioUtils";
+import { ZipEntry } from "./zipUtils";
+import * as libraryStore from "./libraryStore";
+import { toErrorStatus } from "./errors";
+import { batchScope, reporterFor, trackStage } from "./progress";
+
+export interface BatchJobInput {
+  idea: string;
+  aspectRatio: AspectRatio;
+  voice: VoiceName;
+}
+
+export interface BatchJob extends BatchJobInput {
+  id: string;
+  status: GenerationStatus;
+  movie: MovieData | null;
+}
+
+export interface BatchLimits {
+  video: number; // concurrent Veo renders
+  speech: number; // concurrent TTS (and script) requests
+}
+
+export interface BatchOptions {
+  provider: GenerationProvider;
+  limits: BatchLimits;
+  saveToLibrary: boolean;
+  signal?: AbortSignal;
+  onUpdate: (jobId: string, patch: Partial<BatchJob>) => void;
+}
+
+// Runs at most `max` tasks at once; the rest wait in FIFO order
+export const createLimiter = (max: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= max) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+};
+
+// Input parsing
+
+// Splits one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+const parseAspectRatio = (value: string | undefined, fallback: AspectRatio): AspectRatio => {
+  const v = (value || '').toLowerCase();
+  if (v === '16:9' || v === 'landscape') return AspectRatio.Landscape;
+  if (v === '9:16' || v === 'portrait') return AspectRatio.Portrait;
+  return fallback;
+};
+
+const parseVoice = (value: string | undefined, fallback: VoiceName): VoiceName => {
+  const v = (value || '').toLowerCase();
+  return Object.values(VoiceName).find((name) => name.toLowerCase() === v) || fallback;
+};
+
+// Accepts either one idea per line, or CSV with idea / aspect ratio / voice columns.
+// A CSV header row is recognised by an "idea" column; without one, columns are positional.
+export const parseBatchInput = (
+  text: string,
+  defaults: { aspectRatio: AspectRatio; voice: VoiceName }
+): BatchJobInput[] => {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase().replace(/[\s_]/g, ''));
+  const hasHeader = header.includes('idea');
+  const columns = {
+    idea: hasHeader ? header.indexOf('idea') : 0,
+    aspectRatio: hasHeader ? header.findIndex((h) => h === 'aspectratio' || h === 'aspect' || h === 'format') : 1,
+    voice: hasHeader ? header.indexOf('voice') : 2,
+  };
+  const isCsv = hasHeader || lines.some((line) => line.includes(','));
+
+  return (hasHeader ? lines.slice(1) : lines)
+    .map((line) => {
+      if (!isCsv) {
+        return { idea: line, aspectRatio: defaults.aspectRatio, voice: defaults.voice };
+      }
+      const fields = splitCsvLine(line);
+      return {
+        idea: fields[columns.idea] || '',
+        aspectRatio: parseAspectRatio(fields[columns.aspectRatio], defaults.aspectRatio),
+        voice: parseVoice(fields[columns.voice], defaults.voice),
+      };
+    })
+    .filter((input) => input.idea);
+};
+
+export const createBatchJobs = (inputs: BatchJobInput[]): BatchJob[] =>
+  inputs.map((input, i) => ({
+    ...input,
+    id: `${Date.now()}-${i}`,
+    status: { step: 'idle', message: 'Queued' },
+    movie: null,
+  }));
+
+// Running
+
+const runJob = async (
+  job: BatchJob,
+  options: BatchOptions,
+  videoLimit: ReturnType<typeof createLimiter>,
+  speechLimit: ReturnType<typeof createLimiter>
+) => {
+  const { provider, signal, onUpdate } = options;
+  const onProgress = reporterFor(batchScope(job.id));
+
+  onUpdate(job.id, { status: { step: 'script', message: 'Writing script...' } });
+  const storyboard = await speechLimit(() => trackStage(onProgress, 'script', () => provider.generateScript(job.idea, 1, { signal })));
+  signal?.throwIfAborted();
+
+  const movie = createMovie(job.idea, storyboard, job.aspectRatio, job.voice);
+  if (options.saveToLibrary) {
+    await libraryStore.saveMovie(movie);
+  }
+
+  for (const scene of movie.scenes) {
+    onUpdate(job.id, { status: { step: 'video', message: 'Waiting for a render slot...' } });
+
+    let operationName: string | null = null;
+    const request = buildVideoRequest(scene, movie);
+    try {
+      // Settled rather than raced: a failed voiceover must not throw away a clip that was paid for
+      const [video, speech] = await Promise.allSettled([
+        videoLimit(() => {
+          onUpdate(job.id, { status: { step: 'video', message: 'Filming (Veo)...' } });
+          return provider.generateVideo(request, {
+            signal,
+            onProgress,
+            onOperationStarted: (name) => {
+              // Only saved projects can receive a resumed render
+              if (!options.saveToLibrary) return;
+              operationName = name;
+              const { startFrame, ...render } = toRender(request, provider.id);
+              trackOperation({ name, movieId: movie.id, sceneId: scene.id, startedAt: Date.now(), render });
+            },
+          });
+        }),
+        speechLimit(() => provider.generateSpeech(scene.narration, movie.voice, { onProgress })),
+      ]);
+      const error = video.status === 'rejected' ? video.reason : speech.status === 'rejected' ? speech.reason : null;
+      Object.assign(scene, {
+        ...(video.status === 'fulfilled' ? { videoUrl: video.value, render: toRender(request, provider.id) } : {}),
+        ...(speech.status === 'fulfilled' ? { audioBuffer: speech.value } : {}),
+        status: error ? toErrorStatus(error) : { step: 'complete' },
+      });
+      if (error) {
+        // Keep whichever half finished, in the library and in the batch download
+        if (options.saveToLibrary) await libraryStore.saveMovie(movie);
+        onUpdate(job.id, { movie });
+        throw error;
+      }
+    } finally {
+      if (operationName) untrackOperation(operationName);
+    }
+  }
+
+  if (options.saveToLibrary) {
+    await libraryStore.saveMovie(movie);
+  }
+  onUpdate(job.id, { movie, status: { step: 'complete', message: 'Done' } });
+};
+
+// Processes every job; failures are recorded per job and never stop the rest of the batch
+export const runBatch = async (jobs: BatchJob[], options: BatchOptions): Promise<void> => {
+  const videoLimit = createLimiter(Math.max(1, options.limits.video));
+  const speechLimit = createLimiter(Math.max(1, options.limits.speech));
+
+  await Promise.all(jobs.map(async (job) => {
+    try {
+      options.signal?.throwIfAborted();
+      await runJob(job, options, videoLimit, speechLimit);
+    } catch (err: any) {
+      options.onUpdate(job.id, { status: toErrorStatus(err) });
+    }
+  }));
+};
+
+// Zip entries for finished jobs: each clip, its narration as WAV and the script text
+export const collectBatchFiles = async (jobs: BatchJob[]): Promise<ZipEntry[]> => {
+  const entries: ZipEntry[] = [];
+
+  for (const [index, job] of jobs.entries()) {
+    if (!job.movie) continue;
+    const prefix = `${String(index + 1).padStart(3, '0')}_${job.movie.id}`;
+
+    for (const [sceneIndex, scene] of job.movie.scenes.entries()) {
+      const suffix = job.movie.scenes.length > 1 ? `_${sceneIndex + 1}` : '';
+      if (scene.videoUrl) {
+        const video = await (await fetch(scene.videoUrl)).blob();
+        const ext = video.type.includes('webm') ? 'webm' : 'mp4';
+        entries.push({ name: `${prefix}/video${suffix}.${ext}`, data: video });
+      }
+      if (scene.audioBuffer) {
+        entries.push({ name: `${prefix}/narration${suffix}.wav`, data: audioBufferToWav(scene.audioBuffer) });
+      }
+    }
+
+    const script = job.movie.scenes.map((s) => s.narration).join('\n');
+    entries.push({ name: `${prefix}/script.txt`, data: new Blob([`${job.idea}\n\n${script}\n`], { type: 'text/plain' }) });
+  }
+
+  return entries;
+};
@@ -0,0 +1,100 @@
+import { ColorLut } from "../types";
+
+// Colour lookup tables: .cube files imported by the user and a few built-in looks
+
+type ColorTransform = (r: number, g: number, b: number) => [number, number, number];
+
+const BUILT_IN_SIZE = 17;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+// Contrast curve that keeps black, mid grey and white in place; amount 0..1
+const sCurve = (value: number, amount: number) => clamp01(value - (amount * Math.sin(2 * Math.PI * value)) / (2 * Math.PI));
+
+// Samples a transform on a size^3 grid, red fastest
+const buildLut = (name: string, transform: ColorTransform, size: number = BUILT_IN_SIZE): ColorLut => {
+  const data = new Float32Array(size * size * size * 3);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const [R, G, B] = transform(r / (size - 1), g / (size - 1), b / (size - 1));
+        data[i++] = clamp01(R);
+        data[i++] = clamp01(G);
+        data[i++] = clamp01(B);
+      }
+    }
+  }
+  return { name, size, data };
+};
+
+export const LOOKS: { id: string; label: string; build: () => ColorLut }[] = [
+  {
+    id: 'teal-orange',
+    label: 'Teal & orange',
+    // Shadows pushed to teal, highlights and skin to orange
+    build: () => buildLut('Teal & orange', (r, g, b) => {
+      const l = luma(r, g, b);
+      return [r + (l - 0.5) * 0.16, g + (l - 0.5) * 0.02, b - (l - 0.5) * 0.2];
+    }),
+  },
+  {
+    id: 'warm',
+    label: 'Golden hour',
+    build: () => buildLut('Golden hour', (r, g, b) => [r * 1.08 + 0.02, g * 1.02 + 0.01, b * 0.88]),
+  },
+  {
+    id: 'cool',
+    label: 'Moonlight',
+    build: () => buildLut('Moonlight', (r, g, b) => [r * 0.9, g * 0.98, b * 1.1 + 0.03]),
+  },
+  {
+    id: 'bleach',
+    label: 'Bleach bypass',
+    // Half the colour gone and a harder curve, like skipping the bleach bath
+    build: () => buildLut('Bleach bypass', (r, g, b) => {
+      const l = luma(r, g, b);
+      return [r, g, b].map((c) => sCurve(c * 0.5 + l * 0.5, 0.6)) as [number, number, number];
+    }),
+  },
+  {
+    id: 'noir',
+    label: 'Noir',
+    build: () => buildLut('Noir', (r, g, b) => {
+      const l = sCurve(luma(r, g, b), 0.8);
+      return [l, l, l];
+    }),
+  },
+];
+
+// Parses an Adobe/Resolve .cube file (3D tables only); values are rescaled from DOMAIN_MIN/MAX to 0..1
+export const parseCubeLut = (text: string, name: string): ColorLut => {
+  let size = 0;
+  let min = [0, 0, 0];
+  let max = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(rest[0], 10);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported; export a 3D .cube file.');
+    } else if (keyword === 'DOMAIN_MIN') {
+      min = rest.map(Number);
+    } else if (keyword === 'DOMAIN_MAX') {
+      max = rest.map(Number);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      const triple = [keyword, ...rest].slice(0, 3).map(Number);
+      triple.forEach((value, c) => values.push((value - min[c]) / (max[c] - min[c] || 1)));
+    }
+  }
+
+  if (!size || size < 2 || size > 128) throw new Error('Missing or invalid LUT_3D_SIZE in the .cube file.');
+  if (values.length !== size * size * size * 3 || values.some((v) => Number.isNaN(v))) {
+    throw new Error(`Expected ${size}³ colour entries in the .cube file.`);
+  }
+  return { name, size, data: Float32Array.from(values, clamp01) };
+};
@@ -0,0 +1,89 @@
+import { DialogueLine, GenerationProvider, SceneScript, SpeechOptions, VoiceName } from "../types";
+import { getAudioContext } from "./audioUtils";
+
+export const DEFAULT_LINE_GAP = 0.35;
+
+// The text a dialogue scene is captioned and timed with
+export const joinDialogue = (lines: DialogueLine[]): string =>
+  lines.map((line) => line.text.trim()).filter(Boolean).join(' ');
+
+// Speakers in order of first appearance
+export const listSpeakers = (scenes: SceneScript[]): string[] => {
+  const speakers: string[] = [];
+  scenes.forEach((scene) => scene.lines?.forEach((line) => {
+    if (line.speaker && !speakers.includes(line.speaker)) speakers.push(line.speaker);
+  }));
+  return speakers;
+};
+
+// Gives every speaker a voice, keeping existing choices and starting new speakers
+// on voices nobody has yet so characters sound distinct
+export const assignVoices = (
+  speakers: string[],
+  fallback: VoiceName,
+  existing: Record<string, VoiceName> = {}
+): Record<string, VoiceName> => {
+  const voices = Object.values(VoiceName);
+  const cast: Record<string, VoiceName> = {};
+  speakers.forEach((speaker) => {
+    if (existing[speaker]) {
+      cast[speaker] = existing[speaker];
+      return;
+    }
+    const taken = Object.values(cast);
+    cast[speaker] = voices.find((v) => v !== fallback && !taken.includes(v)) || voices[Object.keys(cast).length % voices.length];
+  });
+  return cast;
+};
+
+// Concatenates takes with a fixed gap between them
+export const stitchLines = (takes: AudioBuffer[], gap: number): AudioBuffer => {
+  const ctx = getAudioContext();
+  const sampleRate = takes[0]?.sampleRate || ctx.sampleRate;
+  const gapSamples = Math.round(Math.max(0, gap) * sampleRate);
+  const length = takes.reduce((sum, take) => sum + take.length, 0) + gapSamples * Math.max(0, takes.length - 1);
+  const output = ctx.createBuffer(1, Math.max(1, length), sampleRate);
+  const data = output.getChannelData(0);
+
+  let position = 0;
+  takes.forEach((take) => {
+    data.set(take.getChannelData(0), position);
+    position += take.length + gapSamples;
+  });
+  return output;
+};
+
+// Records each line in its speaker's voice, one after another, and stitches them into one take
+export const recordDialogue = async (
+  lines: DialogueLine[],
+  cast: Record<string, VoiceName>,
+  fallback: VoiceName,
+  gap: number,
+  provider: GenerationProvider,
+  options: SpeechOptions = {}
+): Promise<AudioBuffer> => {
+  const spoken = lines.filter((line) => line.text.trim());
+  if (spoken.length === 0) {
+    throw new Error('This scene has no dialogue to record.');
+  }
+
+  const takes: AudioBuffer[] = [];
+  for (const line of spoken) {
+    options.signal?.throwIfAborted();
+    takes.push(await provider.generateSpeech(line.text.trim(), cast[line.speaker] || fallback, options));
+  }
+  return stitchLines(takes, gap);
+};
+
+// Voices a scene: dialogue line by line in the cast's voices, otherwise the narration in the movie voice
+export const recordSceneAudio = (
+  scene: SceneScript,
+  movie: { voice: VoiceName; cast: Record<string, VoiceName>; lineGap: number },
+  provider: GenerationProvider,
+  options: SpeechOptions = {}
+): Promise<AudioBuffer> => {
+  if (scene.lines?.length) {
+    return recordDialogue(scene.lines, movie.cast, movie.voice, movie.lineGap, provider, options);
+  }
+  return provider.generateSpeech(scene.narration, movie.voice, options);
+};
@@ -0,0 +1,99 @@
+// Typed failures from the generation services. Anything thrown by the SDK, fetch or the
+// browser is normalised into a GenerationError so the UI can explain it and offer the
+// right recovery instead of matching on message text.
+import { ErrorKind, GenerationStatus } from "../types";
+
+export type RecoveryAction = 'select-key' | 'retry' | 'edit-prompt';
+
+export class GenerationError extends Error {
+  readonly kind: ErrorKind;
+  readonly cause?: unknown;
+
+  constructor(kind: ErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+export const ERROR_GUIDE: Record<ErrorKind, { title: string; explanation: string; recovery: RecoveryAction | null }> = {
+  auth: {
+    title: 'API key problem',
+    explanation: 'The API key was rejected or cannot use this model. Video generation needs a paid key from a Google Cloud project with billing enabled.',
+    recovery: 'select-key',
+  },
+  quota: {
+    title: 'Rate limit or quota reached',
+    explanation: 'The API is throttling requests or the quota is used up. Wait a minute and retry, or lower the batch concurrency.',
+    recovery: 'retry',
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    explanation: 'The model refused the prompt or filtered its output. Rephrase the prompt and try again.',
+    recovery: 'edit-prompt',
+  },
+  timeout: {
+    title: 'Timed out',
+    explanation: 'The render took longer than the allowed wait. Retry to start it again.',
+    recovery: 'retry',
+  },
+  download: {
+    title: 'Download failed',
+    explanation: 'The clip was generated but could not be downloaded. Check the connection and retry.',
+    recovery: 'retry',
+  },
+  'audio-decode': {
+    title: 'Audio could not be decoded',
+    explanation: 'The voiceover came back empty, or the audio is in a format the browser cannot decode. Retry, or use a different file.',
+    recovery: 'retry',
+  },
+  cancelled: {
+    title: 'Cancelled',
+    explanation: 'The job was cancelled.',
+    recovery: null,
+  },
+  unknown: {
+    title: 'Something went wrong',
+    explanation: 'An unexpected error occurred.',
+    recovery: 'retry',
+  },
+};
+
+export const toGenerationError = (err: any): GenerationError => {
+  if (err instanceof GenerationError) return err;
+  if (err?.name === 'AbortError') return new GenerationError('cancelled', 'Cancelled', err);
+
+  const status = Number(err?.status ?? err?.code);
+  const message = String(err?.message || err || 'An unexpected error occurred.');
+
+  if ([401, 403].includes(status) || /Requested entity was not found|API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new GenerationError('auth', message, err);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new GenerationError('quota', message, err);
+  }
+  if (/safety|blocked|usage guidelines|responsible AI|prohibited/i.test(message)) {
+    return new GenerationError('safety', message, err);
+  }
+  if (status === 408 || status === 504 || /timed out|DEADLINE_EXCEEDED/i.test(message)) {
+    return new GenerationError('timeout', message, err);
+  }
+  return new GenerationError('unknown', message, err);
+};
+
+// Status for a failed job or scene
+export const toErrorStatus = (err: any): GenerationStatus => {
+  const error = toGenerationError(err);
+  return { step: 'error', error: error.kind === 'cancelled' ? 'Cancelled' : error.message, errorKind: error.kind };
+};
+
+// Makes a service function throw only GenerationErrors
+export const withTypedErrors = <A extends any[], R>(fn: (...args: A) => Promise<R>) =>
+  async (...args: A): Promise<R> => {
+    try {
+      return await fn(...args);
+    } catch (err) {
+      throw toGenerationError(err);
+    }
+  };
@@ -0,0 +1,188 @@
+import { MovieData } from "../types";
+import { getAudioContext } from "./audioUtils";
+import { renderMix } from "./audioMixer";
+import { settleDuration } from "./movieUtils";
+import { createEffectRenderer, fadeLevel, hasEffects, EffectRenderer } from "./videoEffects";
+import { drawOverlays, loadOverlayImages } from "./overlays";
+
+export type ExportFormat = 'mp4' | 'webm';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  fps?: number;
+  onProgress?: (progress: number) => void; // 0..1
+  onWarning?: (message: string) => void; // the export went ahead without something, e.g. the effects
+}
+
+// Candidate MediaRecorder mime types per container, best first
+const MIME_CANDIDATES: Record<ExportFormat, string[]> = {
+  mp4: ['video/mp4;codecs=avc1,mp4a.40.2', 'video/mp4;codecs=avc1,opus', 'video/mp4'],
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+};
+
+const pickMimeType = (format: ExportFormat): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_CANDIDATES[format].find((type) => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+// Formats this browser can actually record
+export const getSupportedExportFormats = (): ExportFormat[] => {
+  return (Object.keys(MIME_CANDIDATES) as ExportFormat[]).filter((format) => pickMimeType(format) !== null);
+};
+
+const waitForEvent = (target: HTMLMediaElement, event: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('Failed to load video for export.')); };
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+};
+
+// Renders every filmed scene through a canvas and plays the rendered soundtrack mix into the
+// same MediaRecorder stream, producing one container file with picture and sound.
+// Video effects are rendered through WebGL on the way, and the overlay layers drawn on top,
+// exactly as the player previews them.
+// Recording happens in real time, so the export takes as long as the movie.
+export const exportMovie = async (movie: MovieData, options: ExportOptions): Promise<Blob> => {
+  const mimeType = pickMimeType(options.format);
+  if (!mimeType) {
+    throw new Error(`This browser cannot record ${options.format.toUpperCase()} files.`);
+  }
+
+  const scenes = movie.scenes.filter((s) => s.videoUrl);
+  if (scenes.length === 0) {
+    throw new Error('There are no filmed scenes to export.');
+  }
+
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+
+  // Size the canvas from the first clip; later clips are scaled to fit
+  video.src = scenes[0].videoUrl!;
+  await waitForEvent(video, 'loadedmetadata');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx2d = canvas.getContext('2d');
+  if (!ctx2d) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+
+  const overlayImages = await loadOverlayImages(movie.overlays);
+  const effects = movie.effects;
+  // Like the preview, the export falls back to the plain video when the effects cannot be rendered
+  let renderer: EffectRenderer | null = null;
+  if (hasEffects(effects)) {
+    try {
+      renderer = createEffectRenderer();
+    } catch (err) {
+      console.error(err);
+    }
+    if (!renderer) {
+      options.onWarning?.('This browser cannot render the video effects, so the movie is exported without them.');
+    }
+  }
+
+  const audioCtx = getAudioContext();
+  const audioDestination = audioCtx.createMediaStreamDestination();
+
+  const stream = new MediaStream([
+    ...canvas.captureStream(options.fps || 30).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+  // Total length is known up front from the clips, so progress is elapsed / total
+  const durations: number[] = [];
+  for (const scene of scenes) {
+    video.src = scene.videoUrl!;
+    await waitForEvent(video, 'loadedmetadata');
+    await settleDuration(video);
+    durations.push(video.duration || scene.duration);
+  }
+  const totalDuration = durations.reduce((sum, d) => sum + d, 0);
+  let completed = 0;
+
+  // The same offline mix the player uses; each clip plays its slice of it
+  let start = 0;
+  const soundtrack = await renderMix(
+    movie,
+    scenes.map((scene, i) => {
+      const entry = { id: scene.id, start, duration: durations[i] };
+      start += durations[i];
+      return entry;
+    })
+  );
+
+  let frameHandle = 0;
+  const drawFrame = () => {
+    if (renderer) {
+      renderer.render(video, effects, fadeLevel(effects, completed + video.currentTime, totalDuration));
+      ctx2d.drawImage(renderer.canvas, 0, 0, canvas.width, canvas.height);
+    } else {
+      ctx2d.drawImage(video, 0, 0, canvas.width, canvas.height);
+    }
+    drawOverlays(ctx2d, canvas.width, canvas.height, movie.overlays, completed + video.currentTime, overlayImages);
+    options.onProgress?.(Math.min(1, (completed + video.currentTime) / totalDuration));
+    frameHandle = requestAnimationFrame(drawFrame);
+  };
+
+  recorder.start(1000);
+
+  try {
+    for (let i = 0; i < scenes.length; i++) {
+      const scene = scenes[i];
+      video.src = scene.videoUrl!;
+      await waitForEvent(video, 'loadeddata');
+
+      const source = audioCtx.createBufferSource();
+      source.buffer = soundtrack;
+      source.connect(audioDestination);
+
+      const ended = waitForEvent(video, 'ended');
+      await video.play();
+      source.start(audioCtx.currentTime, completed, durations[i]);
+      frameHandle = requestAnimationFrame(drawFrame);
+
+      await ended;
+      cancelAnimationFrame(frameHandle);
+      try { source.stop(); } catch (e) {}
+      completed += durations[i];
+    }
+  } finally {
+    cancelAnimationFrame(frameHandle);
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach((track) => track.stop());
+    video.removeAttribute('src');
+    renderer?.dispose();
+  }
+
+  options.onProgress?.(1);
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+// Helper to trigger a browser download for a blob
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
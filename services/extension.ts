@@ -0,0 +1,89 @@
+import { Scene } from "../types";
+import { captureFrame } from "./frames";
+import { getVideoDuration } from "./movieUtils";
+
+// Shot extension: a clip is continued by filming new clips from its last frame.
+// Each extension is a scene of its own with `continues` pointing at the shot's first
+// scene (the head), placed right after the shot, so the timeline, takes and export
+// handle it like any clip while the head's narration runs on over it.
+
+// Shots shorter than the target by less than this count as long enough
+export const EXTENSION_TOLERANCE = 0.5;
+
+export const findShotHead = (scenes: Scene[], id: string): Scene | undefined => {
+  const scene = scenes.find((s) => s.id === id);
+  return (scene?.continues && scenes.find((s) => s.id === scene.continues)) || scene;
+};
+
+// The head and the extensions directly after it, in timeline order
+export const listShot = (scenes: Scene[], headId: string): Scene[] => {
+  const index = scenes.findIndex((s) => s.id === headId);
+  if (index < 0) return [];
+  const shot = [scenes[index]];
+  for (let i = index + 1; i < scenes.length && scenes[i].continues === headId; i++) {
+    shot.push(scenes[i]);
+  }
+  return shot;
+};
+
+export const measureShot = async (shot: Scene[]): Promise<number> => {
+  const durations = await Promise.all(shot.map((s) => (s.videoUrl ? getVideoDuration(s.videoUrl) : 0)));
+  return durations.reduce((sum, d) => sum + d, 0);
+};
+
+export const composeContinuationPrompt = (prompt: string, direction: string): string =>
+  `Continue this shot seamlessly from its last frame, keeping the same subject, setting, lighting and camera style. ` +
+  `${direction.trim() || 'The action carries on naturally.'} Original shot: ${prompt}`;
+
+// An unfilmed extension that starts on the last frame of the shot's current final clip
+export const createExtension = async (head: Scene, last: Scene, direction: string): Promise<Scene> => {
+  if (!last.videoUrl) {
+    throw new Error('Only a filmed clip can be extended.');
+  }
+  return {
+    id: `${head.id}-ext-${Date.now().toString(36)}`,
+    prompt: composeContinuationPrompt(head.prompt, direction),
+    narration: '',
+    duration: last.duration,
+    shot: head.shot,
+    startFrame: await captureFrame(last.videoUrl, 'end'),
+    continues: head.id,
+    videoUrl: null,
+    audioBuffer: null,
+    audioOffset: 0,
+    status: { step: 'idle' },
+  };
+};
+
+export const insertSceneAfter = (scenes: Scene[], afterId: string, scene: Scene): Scene[] => {
+  const index = scenes.findIndex((s) => s.id === afterId);
+  return [...scenes.slice(0, index + 1), scene, ...scenes.slice(index + 1)];
+};
+
+// Moves the whole shot holding `id` past the neighbouring shot, so extensions stay right after their head
+export const moveShot = (scenes: Scene[], id: string, direction: -1 | 1): Scene[] => {
+  const head = findShotHead(scenes, id);
+  if (!head) return scenes;
+  const shot = listShot(scenes, head.id);
+  const start = scenes.indexOf(head);
+  const end = start + shot.length;
+  const rest = [...scenes.slice(0, start), ...scenes.slice(end)];
+
+  let at: number;
+  if (direction < 0) {
+    if (start === 0) return scenes;
+    const previous = findShotHead(scenes, scenes[start - 1].id) || scenes[start - 1];
+    at = rest.indexOf(previous);
+  } else {
+    if (end >= scenes.length) return scenes;
+    const next = listShot(scenes, scenes[end].id);
+    at = rest.indexOf(next[next.length - 1]) + 1;
+  }
+  return [...rest.slice(0, at), ...shot, ...rest.slice(at)];
+};
+
+// Drops a scene; the extensions of a deleted head become scenes of their own
+export const removeScene = (scenes: Scene[], id: string): Scene[] =>
+  scenes
+    .filter((s) => s.id !== id)
+    .map((s) => (s.continues === id ? { ...s, continues: undefined } : s));
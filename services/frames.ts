@@ -0,0 +1,63 @@
+import { settleDuration } from "./movieUtils";
+
+// Still frames grabbed from clips with a detached <video> and a canvas
+
+export type FrameTime = number | 'end';
+
+// Loads a clip for frame grabbing; pair with closeClip
+export const openClip = (videoUrl: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.playsInline = true;
+    video.onerror = () => reject(new Error('Failed to load the clip.'));
+    video.onloadeddata = () => settleDuration(video).then(() => resolve(video), reject);
+    video.src = videoUrl;
+  });
+};
+
+export const closeClip = (video: HTMLVideoElement) => {
+  video.removeAttribute('src');
+  video.load();
+};
+
+// Resolves once the frame at the given time is on screen. 'end' is the last frame, which
+// is what an extension continues from.
+export const seekClip = (video: HTMLVideoElement, time: FrameTime): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('Failed to read a frame from the clip.'));
+    // A hair before the end: seeking to the exact duration shows nothing in some browsers
+    const end = Math.max(0, video.duration - 0.05);
+    video.currentTime = time === 'end' ? end : Math.max(0, Math.min(time, end));
+  });
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string = 'image/png', quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode the image.'))), type, quality);
+  });
+};
+
+// Seeks a clip and returns the frame there as an image, at the clip's own size
+export const captureFrame = async (
+  videoUrl: string,
+  time: FrameTime,
+  type: string = 'image/png',
+  quality?: number
+): Promise<Blob> => {
+  const video = await openClip(videoUrl);
+  try {
+    await seekClip(video, time);
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    ctx.drawImage(video, 0, 0);
+    return await canvasToBlob(canvas, type, quality);
+  } finally {
+    closeClip(video);
+  }
+};
@@ -1,14 +1,25 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { AspectRatio, VoiceName } from "../types";
-import { decodeAudioData } from "./audioUtils";
-
-// Define a type for the window object to include aistudio
-declare global {
-  interface Window {
-    // Helper to cache the audio context to reuse it
-    _audioContext?: AudioContext;
-  }
-}
+import { GoogleGenAI, GenerateVideosOperation, Modality, Type } from "@google/genai";
+import { VoiceName, SceneScript, GenerationProvider, VideoJobOptions, VideoRequest, ScriptOptions, DialogueLine, ShotSpec, SpeechOptions } from "../types";
+import { decodeAudioData, getAudioContext } from "./audioUtils";
+import { pollOperation, withRetry } from "./operationManager";
+import { joinDialogue } from "./dialogue";
+import { buildScriptPrompt } from "./scriptTemplates";
+import { describeShot } from "./shotBuilder";
+import { GenerationError, toGenerationError, withTypedErrors } from "./errors";
+import { readWithProgress, trackStage } from "./progress";
+
+// Models used by the Gemini provider
+export const GEMINI_MODELS = {
+  script: 'gemini-2.5-flash',
+  video: 'veo-3.1-fast-generate-preview', // Veo 3.1 Fast
+  speech: 'gemini-2.5-flash-preview-tts',
+};
+
+// Read lazily so a key selected at runtime is picked up
+const getApiKey = (): string | undefined => process.env.API_KEY;
+
+// Always create a fresh instance to pick up the latest env var
+const createClient = () => new GoogleGenAI({ apiKey: getApiKey() });
 
 // Function to ensure we have a paid API key selected
 export const ensureApiKey = async (): Promise<boolean> => {
@@ -27,76 +38,290 @@ export const promptForApiKey = async (): Promise<void> => {
   }
 };
 
-// 1. Generate Script
-export const generateScript = async (idea: string): Promise<string> => {
-  // Always create a fresh instance to pick up the latest env var
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+// 1. Generate Script (storyboard)
+export const generateScript = async (
+  idea: string,
+  sceneCount: number = 1,
+  options: ScriptOptions = {}
+): Promise<SceneScript[]> => {
+  const ai = createClient();
+  const dialogue = options.mode === 'dialogue';
+
+  const prompt = buildScriptPrompt(idea, sceneCount, options);
+
+  const spoken = dialogue
+    ? {
+        lines: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: { speaker: { type: Type.STRING }, text: { type: Type.STRING } },
+            required: ['speaker', 'text'],
+          },
+        },
+      }
+    : { narration: { type: Type.STRING } };
+
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.script,
+    contents: prompt,
+    config: {
+      abortSignal: options.signal,
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            prompt: { type: Type.STRING },
+            ...spoken,
+            duration: { type: Type.NUMBER },
+          },
+          required: ['prompt', dialogue ? 'lines' : 'narration', 'duration'],
+        },
+      },
+    },
+  });
+
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('safety', `The script request was blocked (${blockReason}).`);
+  }
+
+  let scenes: SceneScript[] = [];
+  try {
+    scenes = JSON.parse(response.text || '[]');
+  } catch (e) {
+    console.error('Failed to parse storyboard JSON', e);
+  }
+
+  // Fall back to a single scene built from the raw idea
+  if (!Array.isArray(scenes) || scenes.length === 0) {
+    return [{ prompt: idea, narration: "Enjoy this scene.", duration: 8 }];
+  }
+
+  return scenes.map((scene) => {
+    const duration = Math.min(10, Math.max(5, Number(scene.duration) || 8));
+    if (!dialogue) {
+      return { prompt: scene.prompt?.trim() || idea, narration: scene.narration?.trim() || "", duration };
+    }
+    const lines: DialogueLine[] = (Array.isArray(scene.lines) ? scene.lines : [])
+      .map((line) => ({ speaker: line.speaker?.trim() || 'Narrator', text: line.text?.trim() || "" }))
+      .filter((line) => line.text);
+    return { prompt: scene.prompt?.trim() || idea, narration: joinDialogue(lines), duration, lines };
+  });
+};
+
+// Rewrites one narration line to be read in roughly the target time
+export const rewriteNarration = async (
+  narration: string,
+  targetSeconds: number,
+  currentSeconds: number
+): Promise<string> => {
+  const ai = createClient();
+
+  const prompt = `
+    You are a professional movie script writer.
+    This voiceover line currently takes ${currentSeconds.toFixed(1)} seconds to read aloud:
+    "${narration}"
+    Rewrite it so it takes about ${targetSeconds.toFixed(1)} seconds to read aloud at the same pace.
+    Keep the meaning and tone. Output ONLY the raw text of the line, no labels or quotes.
+  `;
+
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.script,
+    contents: prompt,
+  });
+
+  return response.text?.trim().replace(/^"|"$/g, '') || narration;
+};
+
+// Expands a short scene idea into a detailed cinematography description for Veo
+export const enhancePrompt = async (prompt: string, shot?: ShotSpec): Promise<string> => {
+  const ai = createClient();
+
+  // The shot spec is appended to the prompt at render time, so it is context here and not repeated
+  const spec = describeShot(shot);
+  const request = `
+    You are a cinematographer writing prompts for a text-to-video model.
+    Expand this shot into a single detailed paragraph (60-120 words) describing the subject, action,
+    setting, composition, colour palette and atmosphere:
+    "${prompt}"
+    ${spec ? `The shot is already specified as: ${spec} Stay consistent with it but do not restate it.` : 'Include camera movement, lens and lighting.'}
+    Describe only what is visible; no dialogue or sound.
+    Output ONLY the paragraph, no labels or quotes.
+  `;
+
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODELS.script,
+    contents: request,
+  });
+
+  return response.text?.trim().replace(/^"|"$/g, '') || prompt;
+};
+
+// Translates the spoken text of a storyboard, scene for scene; prompts and speakers stay as they are
+export const translateScript = async (scenes: SceneScript[], language: string): Promise<SceneScript[]> => {
+  const ai = createClient();
+
+  const source = scenes.map((scene) => (scene.lines?.length ? { lines: scene.lines } : { narration: scene.narration }));
   const prompt = `
-    You are a professional movie script writer. 
-    Write a short, engaging voiceover script (maximum 2-3 sentences) for a video based on this idea: "${idea}".
-    The script should be suitable for a 5-10 second video clip.
-    Output ONLY the raw text of the script, no labels like "Voiceover:" or "Narrator:".
+    You are a professional film translator localizing a voiceover script into ${language}.
+    Translate the spoken text of each scene below. Keep the meaning, tone and roughly the same
+    length so it fits the same footage. Keep speaker names unchanged and return exactly one
+    entry per scene, in the same order, with the same fields.
+    ${JSON.stringify(source)}
   `;
 
   const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
+    model: GEMINI_MODELS.script,
     contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            narration: { type: Type.STRING },
+            lines: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: { speaker: { type: Type.STRING }, text: { type: Type.STRING } },
+                required: ['speaker', 'text'],
+              },
+            },
+          },
+        },
+      },
+    },
   });
 
-  return response.text?.trim() || "Enjoy this scene.";
+  const translated: Partial<SceneScript>[] = JSON.parse(response.text || '[]');
+  if (!Array.isArray(translated) || translated.length !== scenes.length) {
+    throw new Error(`The ${language} translation did not match the storyboard.`);
+  }
+
+  return scenes.map((scene, i) => {
+    if (!scene.lines?.length) {
+      return { ...scene, narration: translated[i].narration?.trim() || scene.narration };
+    }
+    // Speakers come from the original so the cast still applies
+    const lines = scene.lines.map((line, j) => ({ ...line, text: translated[i].lines?.[j]?.text?.trim() || line.text }));
+    return { ...scene, lines, narration: joinDialogue(lines) };
+  });
+};
+
+// Base64 payload of an uploaded image, as Veo expects it for image-to-video
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(new Error('Failed to read the starting frame.'));
+    reader.readAsDataURL(blob);
+  });
 };
 
 // 2. Generate Video (Veo)
-export const generateVideo = async (idea: string, aspectRatio: AspectRatio): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const generateVideo = async (request: VideoRequest, options: VideoJobOptions = {}): Promise<string> => {
+  const ai = createClient();
 
-  // Veo 3.1 Fast
-  const model = 'veo-3.1-fast-generate-preview';
+  const image = request.startFrame
+    ? { imageBytes: await blobToBase64(request.startFrame), mimeType: request.startFrame.type || 'image/png' }
+    : undefined;
 
-  let operation = await ai.models.generateVideos({
-    model: model,
-    prompt: idea,
+  const operation = await withRetry(() => ai.models.generateVideos({
+    model: GEMINI_MODELS.video,
+    prompt: request.prompt,
+    image,
     config: {
       numberOfVideos: 1,
-      resolution: '1080p',
-      aspectRatio: aspectRatio,
+      resolution: request.resolution,
+      aspectRatio: request.aspectRatio,
+      durationSeconds: request.durationSeconds,
+      seed: request.seed,
+      negativePrompt: request.negativePrompt,
+      abortSignal: options.signal,
     }
-  });
+  }), options);
+
+  if (operation.name) {
+    options.onOperationStarted?.(operation.name);
+  }
+
+  return collectVideo(ai, operation, options);
+};
+
+// Picks up polling for an operation started before a page reload
+export const resumeVideo = async (operationName: string, options: VideoJobOptions = {}): Promise<string> => {
+  const ai = createClient();
+  const operation = new GenerateVideosOperation();
+  operation.name = operationName;
+  return collectVideo(ai, operation, options);
+};
 
-  // Poll for completion
-  while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-    operation = await ai.operations.getVideosOperation({ operation: operation });
+// Polls a Veo operation to completion and downloads the finished clip
+const collectVideo = async (
+  ai: GoogleGenAI,
+  operation: GenerateVideosOperation,
+  options: VideoJobOptions
+): Promise<string> => {
+  const finished = await pollOperation(
+    operation,
+    (op) => ai.operations.getVideosOperation({ operation: op }),
+    options
+  );
+
+  if (finished.error) {
+    throw new Error(String(finished.error.message || 'Video generation failed.'));
   }
 
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
+  const videoUri = finished.response?.generatedVideos?.[0]?.video?.uri;
   
   if (!videoUri) {
+    // Veo drops clips that trip its safety filters instead of failing the operation
+    if (finished.response?.raiMediaFilteredCount) {
+      const reasons = finished.response.raiMediaFilteredReasons?.join(' ') || '';
+      throw new GenerationError('safety', `The clip was removed by safety filters. ${reasons}`.trim());
+    }
     throw new Error("Failed to generate video URI.");
   }
 
   // Fetch the actual video blob
   // "You must append an API key when fetching from the download link."
-  const fetchUrl = `${videoUri}&key=${process.env.API_KEY}`;
-  const res = await fetch(fetchUrl);
-  if (!res.ok) {
-    throw new Error(`Failed to download video: ${res.statusText}`);
+  const fetchUrl = `${videoUri}&key=${getApiKey()}`;
+  try {
+    const res = await withRetry(async () => {
+      const response = await fetch(fetchUrl, { signal: options.signal });
+      if (!response.ok) {
+        throw Object.assign(new Error(`Failed to download video: ${response.statusText}`), { status: response.status });
+      }
+      return response;
+    }, options);
+
+    const blob = await readWithProgress(res, options.onProgress);
+    return URL.createObjectURL(blob);
+  } catch (err: any) {
+    if (err?.name === 'AbortError') throw err;
+    // An HTTP status that means something specific (a rejected key, quota) is reported as such
+    if (err?.status !== undefined) {
+      const typed = toGenerationError(err);
+      if (typed.kind !== 'unknown') throw typed;
+    }
+    throw new GenerationError('download', err?.message || 'Failed to download video.', err);
   }
-  
-  const blob = await res.blob();
-  return URL.createObjectURL(blob);
 };
 
 // 3. Generate Speech (TTS)
-export const generateSpeech = async (text: string, voice: VoiceName): Promise<AudioBuffer> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-2.5-flash-preview-tts';
+export const generateSpeech = async (text: string, voice: VoiceName, options: SpeechOptions = {}): Promise<AudioBuffer> => {
+  const ai = createClient();
 
-  const response = await ai.models.generateContent({
-    model: model,
+  const response = await trackStage(options.onProgress, 'speech', () => ai.models.generateContent({
+    model: GEMINI_MODELS.speech,
     contents: [{ parts: [{ text }] }],
     config: {
+      abortSignal: options.signal,
       responseModalities: [Modality.AUDIO],
       speechConfig: {
         voiceConfig: {
@@ -104,27 +329,34 @@ export const generateSpeech = async (text: string, voice: VoiceName): Promise<Au
         },
       },
     },
-  });
+  }));
 
   const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
   
   if (!base64Audio) {
-    throw new Error("No audio data returned from TTS model.");
+    throw new GenerationError('audio-decode', "No audio data returned from TTS model.");
   }
 
   // Use a shared audio context if possible, or create new
   const ctx = getAudioContext();
-  return await decodeAudioData(base64Audio, ctx, 24000, 1);
+  try {
+    return await trackStage(options.onProgress, 'decode', () => decodeAudioData(base64Audio, ctx, 24000, 1));
+  } catch (err: any) {
+    throw new GenerationError('audio-decode', `Could not decode the TTS audio: ${err?.message || err}`, err);
+  }
 };
 
-// Helper to get AudioContext
-export const getAudioContext = (): AudioContext => {
-  if (!window._audioContext) {
-    window._audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-  }
-  // Resume if suspended (browser policy)
-  if (window._audioContext.state === 'suspended') {
-     window._audioContext.resume();
-  }
-  return window._audioContext;
-};
\ No newline at end of file
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  label: 'Gemini (Veo + Flash TTS)',
+  models: GEMINI_MODELS,
+  ensureApiKey,
+  promptForApiKey,
+  generateScript: withTypedErrors(generateScript),
+  rewriteNarration: withTypedErrors(rewriteNarration),
+  enhancePrompt: withTypedErrors(enhancePrompt),
+  translateScript: withTypedErrors(translateScript),
+  generateVideo: withTypedErrors(generateVideo),
+  resumeVideo: withTypedErrors(resumeVideo),
+  generateSpeech: withTypedErrors(generateSpeech),
+};
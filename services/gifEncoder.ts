@@ -0,0 +1,154 @@
+// Animated GIF encoder: one shared 256-colour palette for every frame, LZW-compressed.
+// Good enough for short, small previews; browsers cannot encode animated images themselves.
+
+export interface GifFrame {
+  data: Uint8ClampedArray; // RGBA, as in ImageData
+  delayMs: number;
+}
+
+const MAX_COLORS = 256;
+const MAX_CODE = 4096;
+
+// 15-bit colour key: 5 bits per channel
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+// Popularity palette: the most frequent 15-bit colours across all frames
+const buildPalette = (frames: GifFrame[]): Uint8Array => {
+  const counts = new Uint32Array(1 << 15);
+  frames.forEach(({ data }) => {
+    for (let i = 0; i < data.length; i += 4) counts[colorKey(data[i], data[i + 1], data[i + 2])]++;
+  });
+
+  const keys = Array.from(counts.keys()).filter((key) => counts[key] > 0);
+  keys.sort((a, b) => counts[b] - counts[a]);
+
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  keys.slice(0, MAX_COLORS).forEach((key, i) => {
+    palette[i * 3] = ((key >> 10) & 31) * 8 + 4;
+    palette[i * 3 + 1] = ((key >> 5) & 31) * 8 + 4;
+    palette[i * 3 + 2] = (key & 31) * 8 + 4;
+  });
+  return palette;
+};
+
+// Maps every pixel to its nearest palette entry, caching the answer per 15-bit colour
+const createIndexer = (palette: Uint8Array) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return (data: Uint8ClampedArray): Uint8Array => {
+    const indices = new Uint8Array(data.length / 4);
+    for (let p = 0, i = 0; i < data.length; i += 4, p++) {
+      const key = colorKey(data[i], data[i + 1], data[i + 2]);
+      if (cache[key] < 0) {
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let c = 0; c < MAX_COLORS; c++) {
+          const dr = data[i] - palette[c * 3];
+          const dg = data[i + 1] - palette[c * 3 + 1];
+          const db = data[i + 2] - palette[c * 3 + 2];
+          const distance = dr * dr + dg * dg + db * db;
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = c;
+          }
+        }
+        cache[key] = best;
+      }
+      indices[p] = cache[key];
+    }
+    return indices;
+  };
+};
+
+// Variable-width LZW as GIF expects it: codes packed LSB first, the table reset when full
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let table = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return out;
+};
+
+export const encodeGif = (width: number, height: number, frames: GifFrame[]): Blob => {
+  if (frames.length === 0) throw new Error('An animation needs at least one frame.');
+
+  const bytes: number[] = [];
+  const word = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+  const text = (value: string) => bytes.push(...Array.from(value, (c) => c.charCodeAt(0)));
+
+  const palette = buildPalette(frames);
+  const toIndices = createIndexer(palette);
+
+  text('GIF89a');
+  word(width);
+  word(height);
+  bytes.push(0xf7, 0, 0); // global colour table of 256 entries, background 0, square pixels
+  bytes.push(...palette);
+  // Loop forever (NETSCAPE2.0 application extension)
+  bytes.push(0x21, 0xff, 0x0b);
+  text('NETSCAPE2.0');
+  bytes.push(0x03, 0x01, 0x00, 0x00, 0x00);
+
+  frames.forEach((frame) => {
+    // Graphic control: keep the frame in place, delay in hundredths of a second
+    bytes.push(0x21, 0xf9, 0x04, 0x04);
+    word(Math.round(frame.delayMs / 10));
+    bytes.push(0x00, 0x00);
+    // Image descriptor covering the whole canvas, no local palette
+    bytes.push(0x2c);
+    word(0);
+    word(0);
+    word(width);
+    word(height);
+    bytes.push(0x00);
+
+    const data = lzwEncode(toIndices(frame.data), 8);
+    bytes.push(8);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.slice(i, i + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0x00);
+  });
+
+  bytes.push(0x3b);
+  return new Blob([Uint8Array.from(bytes)], { type: 'image/gif' });
+};
@@ -0,0 +1,270 @@
+import { MovieData, Scene, AspectRatio, VoiceName, MixSettings, DialogueLine, ShotSpec, VideoSettings, VideoRender, VoiceSource, PosterFrame, VideoEffects, OverlayLayer } from "../types";
+import { audioBufferToWav, wavToAudioBuffer, getAudioContext } from "./audioUtils";
+import { DEFAULT_MIX_SETTINGS, decodeMusicFile } from "./audioMixer";
+import { DEFAULT_LINE_GAP } from "./dialogue";
+import { DEFAULT_VIDEO_SETTINGS } from "./videoSettings";
+import { DEFAULT_EFFECTS } from "./videoEffects";
+
+// Persistent project library backed by IndexedDB.
+// AudioBuffers and object URLs can't be stored, so scenes are saved as a video Blob
+// plus a WAV Blob and rebuilt into playable MovieData when a project is opened.
+
+const DB_NAME = 'cinegen';
+const DB_VERSION = 1;
+const STORE = 'movies';
+
+export interface StoredScene {
+  id: string;
+  prompt: string;
+  narration: string;
+  duration: number;
+  video: Blob | null;
+  audio: Blob | null; // WAV
+  audioOffset?: number; // missing in records saved before narration timing existed
+  voiceSource?: VoiceSource;
+  continues?: string;
+  lines?: DialogueLine[];
+  shot?: ShotSpec;
+  startFrame?: Blob | null;
+  render?: VideoRender;
+  takes?: StoredTake[];
+}
+
+export interface StoredTake {
+  id: string;
+  video: Blob;
+  render?: VideoRender;
+}
+
+export interface StoredTrack {
+  language: string;
+  voice: VoiceName;
+  createdAt: number;
+  scenes: { sceneId: string; narration: string; lines?: DialogueLine[]; audio: Blob | null }[];
+}
+
+export interface StoredMovie {
+  id: string;
+  title: string;
+  idea: string;
+  aspectRatio: AspectRatio;
+  video?: VideoSettings;
+  voice: VoiceName;
+  cast?: Record<string, VoiceName>;
+  lineGap?: number;
+  music?: { name: string; file: Blob }; // the mix fields are missing in records saved before mixing existed
+  mix?: MixSettings;
+  effects?: VideoEffects;
+  overlays?: OverlayLayer[];
+  tracks?: StoredTrack[];
+  poster?: PosterFrame;
+  preview?: Blob;
+  createdAt: number;
+  updatedAt: number;
+  scenes: StoredScene[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request against the movies store and resolves with its result
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Object URLs are only valid in this document, so read the Blob behind them
+const fetchBlob = async (url: string | null): Promise<Blob | null> => {
+  if (!url) return null;
+  const res = await fetch(url);
+  return res.blob();
+};
+
+const serializeScene = async (scene: Scene): Promise<StoredScene> => ({
+  id: scene.id,
+  prompt: scene.prompt,
+  narration: scene.narration,
+  duration: scene.duration,
+  video: await fetchBlob(scene.videoUrl),
+  audio: scene.audioBuffer ? audioBufferToWav(scene.audioBuffer) : null,
+  audioOffset: scene.audioOffset,
+  voiceSource: scene.voiceSource,
+  continues: scene.continues,
+  lines: scene.lines,
+  shot: scene.shot,
+  startFrame: scene.startFrame || null,
+  render: scene.render,
+  takes: await Promise.all((scene.takes || []).map(async (take) => ({
+    id: take.id,
+    video: (await fetchBlob(take.videoUrl))!,
+    render: take.render,
+  }))),
+});
+
+const deserializeScene = async (scene: StoredScene): Promise<Scene> => {
+  const audioBuffer = scene.audio ? await wavToAudioBuffer(scene.audio, getAudioContext()) : null;
+  return {
+    id: scene.id,
+    prompt: scene.prompt,
+    narration: scene.narration,
+    duration: scene.duration,
+    videoUrl: scene.video ? URL.createObjectURL(scene.video) : null,
+    audioBuffer,
+    audioOffset: scene.audioOffset || 0,
+    voiceSource: scene.voiceSource,
+    continues: scene.continues,
+    lines: scene.lines,
+    shot: scene.shot,
+    startFrame: scene.startFrame || null,
+    render: scene.render,
+    takes: scene.takes?.map((take) => ({ id: take.id, videoUrl: URL.createObjectURL(take.video), render: take.render })),
+    status: { step: scene.video ? 'complete' : 'idle' },
+  };
+};
+
+export const saveMovie = async (movie: MovieData): Promise<StoredMovie> => {
+  const record: StoredMovie = {
+    id: movie.id,
+    title: movie.title,
+    idea: movie.idea,
+    aspectRatio: movie.aspectRatio,
+    video: movie.video,
+    voice: movie.voice,
+    cast: movie.cast,
+    lineGap: movie.lineGap,
+    music: movie.music ? { name: movie.music.name, file: movie.music.file } : undefined,
+    mix: movie.mix,
+    effects: movie.effects,
+    overlays: movie.overlays,
+    tracks: movie.tracks.map((track) => ({
+      ...track,
+      scenes: track.scenes.map(({ audioBuffer, ...scene }) => ({ ...scene, audio: audioBuffer ? audioBufferToWav(audioBuffer) : null })),
+    })),
+    poster: movie.poster || undefined,
+    preview: movie.preview || undefined,
+    createdAt: movie.createdAt,
+    updatedAt: Date.now(),
+    scenes: await Promise.all(movie.scenes.map(serializeScene)),
+  };
+  await withStore('readwrite', (store) => store.put(record));
+  return record;
+};
+
+// Newest first
+export const listMovies = async (): Promise<StoredMovie[]> => {
+  const records = await withStore<StoredMovie[]>('readonly', (store) => store.getAll());
+  return records.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Rebuilds a playable movie; the caller owns (and must revoke) the new object URLs
+export const loadMovie = async (id: string): Promise<MovieData | null> => {
+  const record = await withStore<StoredMovie | undefined>('readonly', (store) => store.get(id));
+  if (!record) return null;
+
+  return {
+    id: record.id,
+    title: record.title,
+    idea: record.idea,
+    aspectRatio: record.aspectRatio,
+    video: { ...DEFAULT_VIDEO_SETTINGS, ...record.video },
+    voice: record.voice,
+    cast: record.cast || {},
+    lineGap: record.lineGap ?? DEFAULT_LINE_GAP,
+    music: record.music ? await decodeMusicFile(record.music.file, record.music.name) : null,
+    mix: { ...DEFAULT_MIX_SETTINGS, ...record.mix },
+    effects: { ...DEFAULT_EFFECTS, ...record.effects },
+    overlays: record.overlays || [],
+    tracks: await Promise.all((record.tracks || []).map(async (track) => ({
+      ...track,
+      scenes: await Promise.all(track.scenes.map(async ({ audio, ...scene }) => ({
+        ...scene,
+        audioBuffer: audio ? await wavToAudioBuffer(audio, getAudioContext()) : null,
+      }))),
+    }))),
+    poster: record.poster || null,
+    preview: record.preview || null,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    scenes: await Promise.all(record.scenes.map(deserializeScene)),
+  };
+};
+
+export const renameMovie = async (id: string, title: string): Promise<void> => {
+  const record = await withStore<StoredMovie | undefined>('readonly', (store) => store.get(id));
+  if (!record) return;
+  await withStore('readwrite', (store) => store.put({ ...record, title, updatedAt: Date.now() }));
+};
+
+// Stores a clip for one scene without going through MovieData (used when resuming renders)
+export const attachSceneVideo = async (
+  movieId: string,
+  sceneId: string,
+  video: Blob,
+  render?: Omit<VideoRender, 'startFrame'>
+): Promise<void> => {
+  const record = await withStore<StoredMovie | undefined>('readonly', (store) => store.get(movieId));
+  if (!record) return;
+  const scenes = record.scenes.map((scene) => (scene.id === sceneId
+    ? { ...scene, video, render: render ? { ...render, startFrame: scene.startFrame || null } : scene.render }
+    : scene));
+  await withStore('readwrite', (store) => store.put({ ...record, scenes, updatedAt: Date.now() }));
+};
+
+export const duplicateMovie = async (id: string): Promise<StoredMovie | null> => {
+  const record = await withStore<StoredMovie | undefined>('readonly', (store) => store.get(id));
+  if (!record) return null;
+
+  // Scenes get new ids, so everything that points at a scene is pointed at its copy
+  const now = Date.now();
+  const ids = new Map(record.scenes.map((scene) => [scene.id, createId()]));
+  const copy: StoredMovie = {
+    ...record,
+    id: createId(),
+    title: `${record.title} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+    scenes: record.scenes.map((scene) => ({
+      ...scene,
+      id: ids.get(scene.id)!,
+      continues: scene.continues && ids.get(scene.continues),
+    })),
+    tracks: record.tracks?.map((track) => ({
+      ...track,
+      scenes: track.scenes.map((scene) => ({ ...scene, sceneId: ids.get(scene.sceneId) || scene.sceneId })),
+    })),
+    poster: record.poster && { ...record.poster, sceneId: ids.get(record.poster.sceneId) || record.poster.sceneId },
+  };
+  await withStore('readwrite', (store) => store.put(copy));
+  return copy;
+};
+
+export const deleteMovie = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
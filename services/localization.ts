@@ -0,0 +1,64 @@
+import { GenerationProvider, LanguageTrack, MovieData, ProgressReporter, Scene, VoiceName } from "../types";
+import { recordSceneAudio } from "./dialogue";
+import { trackStage } from "./progress";
+
+// Language tracks: the storyboard's spoken text translated and voiced again, played and
+// exported over the same clips in place of the original narration.
+
+// Extensions carry on their shot's narration, and a scene may have nothing to say at all
+const hasSpokenText = (scene: Scene): boolean =>
+  !scene.continues && (!!scene.narration.trim() || !!scene.lines?.some((line) => line.text.trim()));
+
+// Translates the whole script in one call, then voices it scene by scene.
+// Scenes without spoken text are neither translated nor voiced; they stay silent in the track.
+export const buildLanguageTrack = async (
+  movie: MovieData,
+  language: string,
+  voice: VoiceName,
+  provider: GenerationProvider,
+  onProgress?: ProgressReporter,
+  signal?: AbortSignal
+): Promise<LanguageTrack> => {
+  const spoken = movie.scenes.filter(hasSpokenText);
+  const translated = spoken.length > 0
+    ? await trackStage(onProgress, 'script', () => provider.translateScript(spoken, language))
+    : [];
+
+  const scenes: LanguageTrack['scenes'] = [];
+  for (const scene of movie.scenes) {
+    signal?.throwIfAborted();
+    const index = spoken.indexOf(scene);
+    if (index < 0) {
+      scenes.push({ sceneId: scene.id, narration: scene.narration, lines: scene.lines, audioBuffer: null });
+      continue;
+    }
+    const script = translated[index];
+    const audioBuffer = await recordSceneAudio(script, { voice, cast: movie.cast, lineGap: movie.lineGap }, provider, { onProgress });
+    scenes.push({ sceneId: scene.id, narration: script.narration, lines: script.lines, audioBuffer });
+  }
+
+  return { language, voice, scenes, createdAt: Date.now() };
+};
+
+// The movie as heard in the given language (null: the original).
+// Scenes added after the track was made stay silent rather than fall back to another language.
+export const applyLanguageTrack = (movie: MovieData, language: string | null): MovieData => {
+  const track = movie.tracks.find((t) => t.language === language);
+  if (!track) return movie;
+
+  return {
+    ...movie,
+    scenes: movie.scenes.map((scene) => {
+      const localized = track.scenes.find((s) => s.sceneId === scene.id);
+      return {
+        ...scene,
+        narration: localized?.narration ?? scene.narration,
+        lines: localized?.lines ?? scene.lines,
+        audioBuffer: localized?.audioBuffer ?? null,
+      };
+    }),
+  };
+};
+
+export const replaceLanguageTrack = (tracks: LanguageTrack[], track: LanguageTrack): LanguageTrack[] =>
+  [...tracks.filter((t) => t.language !== track.language), track];
@@ -0,0 +1,214 @@
+import { AspectRatio, VoiceName, SceneScript, GenerationProvider, VideoJobOptions, VideoRequest, ScriptOptions, SpeechOptions } from "../types";
+import { getAudioContext } from "./audioUtils";
+import { sleep } from "./operationManager";
+import { joinDialogue } from "./dialogue";
+
+// Offline provider for developing the UI without an API key or network.
+// Every output is derived from its input, so the same idea always yields the same movie.
+
+const MOCK_CLIP_SECONDS = 4;
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_CHARS_PER_SECOND = 15;
+
+// Tone pitch per voice so different voices are audibly distinct
+const VOICE_FREQUENCIES: Record<VoiceName, number> = {
+  [VoiceName.Kore]: 440,
+  [VoiceName.Puck]: 523.25,
+  [VoiceName.Charon]: 261.63,
+  [VoiceName.Fenrir]: 329.63,
+  [VoiceName.Zephyr]: 392,
+};
+
+// Small stable string hash (djb2)
+const hashString = (text: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const CANNED_NARRATION = [
+  "It all begins with a single moment.",
+  "The world shifts, and nothing is quite the same.",
+  "Every choice pulls the story forward.",
+  "Tension builds as the light begins to fade.",
+  "And then, everything falls into place.",
+  "This is where the journey ends, for now.",
+];
+
+const MOCK_SPEAKERS = ['Ada', 'Ben'];
+
+export const generateScript = async (
+  idea: string,
+  sceneCount: number = 1,
+  options: ScriptOptions = {}
+): Promise<SceneScript[]> => {
+  options.signal?.throwIfAborted();
+  const base = hashString(idea + (options.tone || '') + (options.style || ''));
+  const perScene = options.targetDuration ? Math.min(10, Math.max(5, Math.round(options.targetDuration / sceneCount))) : 0;
+  return Array.from({ length: sceneCount }, (_, i) => {
+    const scene: SceneScript = {
+      prompt: `${idea} (shot ${i + 1})`,
+      narration: CANNED_NARRATION[(base + i) % CANNED_NARRATION.length],
+      duration: perScene || 5 + ((base + i) % 6),
+    };
+    if (options.mode !== 'dialogue') return scene;
+
+    // Two canned lines traded between the speakers
+    const lines = [0, 1].map((n) => ({
+      speaker: MOCK_SPEAKERS[(i + n) % MOCK_SPEAKERS.length],
+      text: CANNED_NARRATION[(base + i + n) % CANNED_NARRATION.length],
+    }));
+    return { ...scene, lines, narration: joinDialogue(lines) };
+  });
+};
+
+// Scales the word count by the requested ratio, padding with filler when it has to grow
+export const rewriteNarration = async (
+  narration: string,
+  targetSeconds: number,
+  currentSeconds: number
+): Promise<string> => {
+  const words = narration.split(/\s+/).filter(Boolean);
+  const count = Math.max(1, Math.round(words.length * (targetSeconds / Math.max(0.1, currentSeconds))));
+  const filler = ['slowly', 'quietly', 'once', 'more'];
+  while (words.length < count) {
+    words.push(filler[words.length % filler.length]);
+  }
+  return words.slice(0, count).join(' ');
+};
+
+// Adds stock cinematography wording, picked from the prompt so it is stable
+export const enhancePrompt = async (prompt: string): Promise<string> => {
+  const details = [
+    'wide establishing composition with a clear foreground subject',
+    'shallow depth of field and gentle lens flare',
+    'rich contrast with a teal and orange palette',
+    'soft atmospheric haze drifting through the frame',
+  ];
+  // Wording from an earlier enhance is replaced, not stacked; the shot spec stays separate
+  // because it is appended when the clip is rendered
+  const idea = prompt.replace(/\s*Detailed cinematic shot,[^]*$/, '').trim().replace(/[.\s]*$/, '.');
+  const base = hashString(idea);
+  return `${idea} Detailed cinematic shot, ${details[base % details.length]}, ${details[(base + 1) % details.length]}.`;
+};
+
+// Tags the spoken text with the language instead of translating it
+export const translateScript = async (scenes: SceneScript[], language: string): Promise<SceneScript[]> => {
+  const tag = `[${language}]`;
+  return scenes.map((scene) => {
+    if (!scene.lines?.length) return { ...scene, narration: `${tag} ${scene.narration}` };
+    const lines = scene.lines.map((line) => ({ ...line, text: `${tag} ${line.text}` }));
+    return { ...scene, lines, narration: joinDialogue(lines) };
+  });
+};
+
+// Records an SMPTE-style colour bar pattern with a moving sweep and the prompt text
+export const generateVideo = async (request: VideoRequest, options: VideoJobOptions = {}): Promise<string> => {
+  const { prompt } = request;
+  const landscape = request.aspectRatio === AspectRatio.Landscape;
+  const canvas = document.createElement('canvas');
+  canvas.width = landscape ? 640 : 360;
+  canvas.height = landscape ? 360 : 640;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+
+  const hue = hashString(prompt + request.seed) % 360;
+  const startFrame = request.startFrame ? await createImageBitmap(request.startFrame) : null;
+  const bars = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+  const frameCount = (request.durationSeconds || MOCK_CLIP_SECONDS) * 30;
+
+  const drawFrame = (frame: number) => {
+    // Image-to-video: the uploaded frame stands in for the bars
+    if (startFrame) {
+      ctx.drawImage(startFrame, 0, 0, canvas.width, canvas.height * 0.7);
+    } else {
+      const barWidth = canvas.width / bars.length;
+      bars.forEach((color, i) => {
+        ctx.fillStyle = color;
+        ctx.fillRect(i * barWidth, 0, barWidth, canvas.height * 0.7);
+      });
+    }
+    ctx.fillStyle = `hsl(${hue}, 60%, 25%)`;
+    ctx.fillRect(0, canvas.height * 0.7, canvas.width, canvas.height * 0.3);
+
+    const sweepX = (frame / frameCount) * canvas.width;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.fillRect(sweepX - 2, 0, 4, canvas.height * 0.7);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '16px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(prompt.slice(0, 48), canvas.width / 2, canvas.height * 0.82, canvas.width - 20);
+    ctx.fillText(`MOCK ${(frame / 30).toFixed(1)}s`, canvas.width / 2, canvas.height * 0.92);
+  };
+
+  const mimeType = ['video/webm;codecs=vp8', 'video/webm', 'video/mp4'].find((t) => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(canvas.captureStream(30), mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  const startedAt = Date.now();
+  try {
+    for (let frame = 0; frame < frameCount; frame++) {
+      drawFrame(frame);
+      if (frame % 30 === 0) {
+        const elapsedMs = Date.now() - startedAt;
+        options.onProgress?.({ stage: 'video', state: 'active', elapsedMs, remainingMs: ((frameCount - frame) * 1000) / 30 });
+      }
+      await sleep(1000 / 30, options.signal);
+    }
+    options.onProgress?.({ stage: 'video', state: 'done', elapsedMs: Date.now() - startedAt, remainingMs: 0 });
+  } finally {
+    recorder.stop();
+    await stopped;
+  }
+
+  return URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+};
+
+// A sine tone with a short fade in/out, as long as the text would take to read aloud
+export const generateSpeech = async (text: string, voice: VoiceName, options: SpeechOptions = {}): Promise<AudioBuffer> => {
+  options.signal?.throwIfAborted();
+  options.onProgress?.({ stage: 'speech', state: 'active' });
+  const ctx = getAudioContext();
+  const seconds = Math.max(1, text.length / MOCK_CHARS_PER_SECOND);
+  const length = Math.floor(seconds * MOCK_SAMPLE_RATE);
+  const buffer = ctx.createBuffer(1, length, MOCK_SAMPLE_RATE);
+  const channelData = buffer.getChannelData(0);
+
+  const frequency = VOICE_FREQUENCIES[voice];
+  const fade = Math.floor(0.05 * MOCK_SAMPLE_RATE);
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / fade, (length - i) / fade);
+    channelData[i] = 0.3 * envelope * Math.sin((2 * Math.PI * frequency * i) / MOCK_SAMPLE_RATE);
+  }
+
+  options.onProgress?.({ stage: 'speech', state: 'done' });
+  return buffer;
+};
+
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  models: { script: 'mock-script', video: 'mock-video', speech: 'mock-speech' },
+  ensureApiKey: async () => true,
+  promptForApiKey: async () => {},
+  generateScript,
+  rewriteNarration,
+  enhancePrompt,
+  translateScript,
+  generateVideo,
+  // Mock renders never leave the page, so there is nothing to resume
+  resumeVideo: async () => {
+    throw new Error("Mock renders cannot be resumed after a reload.");
+  },
+  generateSpeech,
+};
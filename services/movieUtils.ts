@@ -0,0 +1,91 @@
+import { AspectRatio, VoiceName, MovieData, Scene, SceneScript, VideoSettings } from "../types";
+import { DEFAULT_MIX_SETTINGS } from "./audioMixer";
+import { DEFAULT_VIDEO_SETTINGS } from "./videoSettings";
+import { DEFAULT_EFFECTS } from "./videoEffects";
+import { assignVoices, listSpeakers, DEFAULT_LINE_GAP } from "./dialogue";
+
+// Builds an unfilmed project from a storyboard
+export const createMovie = (
+  idea: string,
+  storyboard: SceneScript[],
+  aspectRatio: AspectRatio,
+  voice: VoiceName,
+  video: VideoSettings = DEFAULT_VIDEO_SETTINGS
+): MovieData => {
+  const now = Date.now();
+  const id = `${now}-${Math.random().toString(36).slice(2, 8)}`;
+  const scenes: Scene[] = storyboard.map((s, i) => ({
+    ...s,
+    id: `${id}-${i}`,
+    videoUrl: null,
+    audioBuffer: null,
+    audioOffset: 0,
+    status: { step: 'idle' },
+  }));
+
+  return {
+    id,
+    title: idea.trim().slice(0, 60),
+    idea,
+    scenes,
+    aspectRatio,
+    video: { ...video },
+    voice,
+    cast: assignVoices(listSpeakers(storyboard), voice),
+    lineGap: DEFAULT_LINE_GAP,
+    music: null,
+    mix: { ...DEFAULT_MIX_SETTINGS },
+    effects: { ...DEFAULT_EFFECTS },
+    overlays: [],
+    tracks: [],
+    poster: null,
+    preview: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Reads a clip's real length from its metadata (Veo clips don't always match the target duration)
+export const getVideoDuration = (url: string): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      settleDuration(video).then(() => {
+        resolve(video.duration);
+        video.removeAttribute('src');
+      }, reject);
+    };
+    video.onerror = () => reject(new Error('Failed to read video metadata.'));
+    video.src = url;
+  });
+};
+
+// WebM written by MediaRecorder (the mock clips) has no duration in its header, so the
+// browser reports Infinity until it has scanned the file; seeking far past the end makes
+// it do that. Leaves the video at its last frame.
+export const settleDuration = (video: HTMLVideoElement): Promise<void> => {
+  if (Number.isFinite(video.duration)) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    video.ondurationchange = () => {
+      if (!Number.isFinite(video.duration)) return;
+      video.ondurationchange = null;
+      resolve();
+    };
+    video.onerror = () => reject(new Error('Failed to read video metadata.'));
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+};
+
+// Sequence layout from the real clip lengths, for callers outside the player
+export const measureTimeline = async (movie: MovieData): Promise<{ id: string; start: number; duration: number }[]> => {
+  const timeline: { id: string; start: number; duration: number }[] = [];
+  let start = 0;
+  for (const scene of movie.scenes) {
+    if (!scene.videoUrl) continue;
+    const duration = await getVideoDuration(scene.videoUrl);
+    timeline.push({ id: scene.id, start, duration });
+    start += duration;
+  }
+  return timeline;
+};
@@ -0,0 +1,57 @@
+import { GenerationProvider, Scene, VoiceName } from "../types";
+import { getAudioContext, timeStretch, trimSilence } from "./audioUtils";
+
+export type FitMode = 'stretch' | 'rewrite';
+
+// Beyond these ratios time-stretching becomes audibly unnatural
+const MIN_STRETCH = 0.8;
+const MAX_STRETCH = 1.25;
+// A rewrite within this fraction of the target is close enough to finish with a stretch
+const REWRITE_TOLERANCE = 0.1;
+const MAX_REWRITES = 3;
+// Breathing room left at the end of the clip
+const TAIL_SECONDS = 0.2;
+
+export interface FitResult {
+  narration: string;
+  audioBuffer: AudioBuffer;
+  stretch: number; // factor applied in the final stretch
+}
+
+const stretchToFit = (buffer: AudioBuffer, target: number): { audioBuffer: AudioBuffer; stretch: number } => {
+  const stretch = Math.min(MAX_STRETCH, Math.max(MIN_STRETCH, target / buffer.duration));
+  if (Math.abs(stretch - 1) < 0.01) return { audioBuffer: buffer, stretch: 1 };
+  return { audioBuffer: timeStretch(buffer, getAudioContext(), stretch), stretch };
+};
+
+// Makes a scene's narration fill the clip from its start offset to just before the end.
+// 'stretch' time-stretches the existing take; 'rewrite' asks the script model for a
+// shorter/longer line and re-records it until it is close, then stretches the remainder.
+export const fitNarrationToVideo = async (
+  scene: Scene,
+  videoDuration: number,
+  voice: VoiceName,
+  provider: GenerationProvider,
+  mode: FitMode,
+  signal?: AbortSignal
+): Promise<FitResult> => {
+  if (!scene.audioBuffer) {
+    throw new Error('This scene has no narration to fit.');
+  }
+
+  const ctx = getAudioContext();
+  const target = Math.max(0.5, videoDuration - scene.audioOffset - TAIL_SECONDS);
+  let narration = scene.narration;
+  let buffer = trimSilence(scene.audioBuffer, ctx);
+
+  if (mode === 'rewrite') {
+    for (let attempt = 0; attempt < MAX_REWRITES; attempt++) {
+      if (Math.abs(buffer.duration - target) / target <= REWRITE_TOLERANCE) break;
+      signal?.throwIfAborted();
+      narration = await provider.rewriteNarration(narration, target, buffer.duration);
+      buffer = trimSilence(await provider.generateSpeech(narration, voice, { signal }), ctx);
+    }
+  }
+
+  return { narration, ...stretchToFit(buffer, target) };
+};
@@ -0,0 +1,152 @@
+import { OperationPolicy, VideoJobOptions, VideoRender } from "../types";
+import { GenerationError } from "./errors";
+
+// Long-running operation helpers: cancellable polling with a max wait, retry with
+// exponential backoff for transient failures, and a localStorage record of in-flight
+// operations so a reloaded page can pick up where it left off.
+
+export const DEFAULT_OPERATION_POLICY: OperationPolicy = {
+  pollIntervalMs: 5000,
+  maxWaitMs: 10 * 60 * 1000,
+  maxRetries: 4,
+  backoffBaseMs: 2000,
+};
+
+export type OperationOptions = Pick<VideoJobOptions, 'signal' | 'policy' | 'startedAt' | 'onProgress'>;
+
+const PENDING_KEY = 'cinegen.pendingOperations';
+const RENDER_TIMES_KEY = 'cinegen.renderTimes';
+
+// Until a few renders have been timed, assume a typical Veo Fast render
+const DEFAULT_RENDER_MS = 90 * 1000;
+const RENDER_TIME_SAMPLES = 10;
+
+export interface PendingOperation {
+  name: string;
+  movieId: string;
+  sceneId: string;
+  startedAt: number;
+  render?: Omit<VideoRender, 'startFrame'>; // the starting frame stays with the scene in the library
+}
+
+export const resolvePolicy = (policy?: Partial<OperationPolicy>): OperationPolicy => ({
+  ...DEFAULT_OPERATION_POLICY,
+  ...policy,
+});
+
+export const isAbortError = (err: any): boolean =>
+  err?.name === 'AbortError' || (err instanceof GenerationError && err.kind === 'cancelled');
+
+// Network failures, rate limits and 5xx responses are worth another try; anything else is final
+export const isTransientError = (err: any): boolean => {
+  if (isAbortError(err)) return false;
+  if (err instanceof TypeError) return true; // fetch network failure
+  const status = Number(err?.status ?? err?.code);
+  if ([408, 429, 500, 502, 503, 504].includes(status)) return true;
+  const msg = String(err?.message || '');
+  return /UNAVAILABLE|RESOURCE_EXHAUSTED|DEADLINE_EXCEEDED|\b(429|500|502|503|504)\b/.test(msg);
+};
+
+// setTimeout that rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export const withRetry = async <T>(fn: () => Promise<T>, options: OperationOptions = {}): Promise<T> => {
+  const policy = resolvePolicy(options.policy);
+  for (let attempt = 0; ; attempt++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= policy.maxRetries || !isTransientError(err)) throw err;
+      const delay = policy.backoffBaseMs * 2 ** attempt;
+      console.warn(`Transient failure, retrying in ${delay}ms`, err);
+      await sleep(delay, options.signal);
+    }
+  }
+};
+
+// Render time estimate
+
+const listRenderTimes = (): number[] => {
+  try {
+    return JSON.parse(localStorage.getItem(RENDER_TIMES_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+// Average of the most recent completed renders
+export const estimateRenderTime = (): number => {
+  const times = listRenderTimes();
+  return times.length ? times.reduce((sum, t) => sum + t, 0) / times.length : DEFAULT_RENDER_MS;
+};
+
+const recordRenderTime = (ms: number) => {
+  localStorage.setItem(RENDER_TIMES_KEY, JSON.stringify([...listRenderTimes(), ms].slice(-RENDER_TIME_SAMPLES)));
+};
+
+// Polls until the operation reports done, the signal aborts or the max wait elapses.
+// Each poll reports the elapsed time and an estimate of the time remaining.
+export const pollOperation = async <T extends { done?: boolean }>(
+  operation: T,
+  refresh: (operation: T) => Promise<T>,
+  options: OperationOptions = {}
+): Promise<T> => {
+  const policy = resolvePolicy(options.policy);
+  const startedAt = options.startedAt ?? Date.now();
+  const deadline = startedAt + policy.maxWaitMs;
+  const expected = estimateRenderTime();
+  const report = (state: 'active' | 'done') => {
+    const elapsedMs = Date.now() - startedAt;
+    options.onProgress?.({ stage: 'video', state, elapsedMs, remainingMs: state === 'done' ? 0 : Math.max(0, expected - elapsedMs) });
+  };
+
+  while (!operation.done) {
+    report('active');
+    if (Date.now() >= deadline) {
+      options.onProgress?.({ stage: 'video', state: 'error', elapsedMs: Date.now() - startedAt });
+      throw new GenerationError('timeout', `Operation timed out after ${Math.round(policy.maxWaitMs / 1000)} seconds.`);
+    }
+    await sleep(policy.pollIntervalMs, options.signal);
+    operation = await withRetry(() => refresh(operation), options);
+  }
+  recordRenderTime(Date.now() - startedAt);
+  report('done');
+  return operation;
+};
+
+// In-flight operation records
+
+export const listPendingOperations = (): PendingOperation[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+export const trackOperation = (operation: PendingOperation) => {
+  const pending = listPendingOperations().filter((op) => op.name !== operation.name);
+  localStorage.setItem(PENDING_KEY, JSON.stringify([...pending, operation]));
+};
+
+export const untrackOperation = (name: string) => {
+  const pending = listPendingOperations().filter((op) => op.name !== name);
+  localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+};
@@ -0,0 +1,215 @@
+import { OverlayAnimation, OverlayKind, OverlayLayer, OverlayPosition } from "../types";
+
+// Overlay layers are drawn with the 2D canvas, by the same code in the player and in the
+// export, so what is previewed is what gets recorded.
+
+export const OVERLAY_FONTS = ['sans-serif', 'serif', 'Georgia', 'Trebuchet MS', 'Impact', 'Courier New'];
+
+// Seconds an animation in or out takes
+const ANIMATION_SECONDS = 0.6;
+
+type OverlayTemplate = Omit<OverlayLayer, 'id' | 'start' | 'end'> & { seconds: number | null }; // null: whole movie
+
+export const OVERLAY_TEMPLATES: Record<OverlayKind, OverlayTemplate> = {
+  title: {
+    kind: 'title',
+    text: '',
+    subtitle: '',
+    image: null,
+    font: 'Georgia',
+    size: 0.1,
+    color: '#ffffff',
+    position: 'center',
+    animationIn: 'fade',
+    animationOut: 'fade',
+    seconds: 4,
+  },
+  'lower-third': {
+    kind: 'lower-third',
+    text: 'Name Surname',
+    subtitle: 'Role or location',
+    image: null,
+    font: 'sans-serif',
+    size: 0.055,
+    color: '#ffffff',
+    position: 'bottom-left',
+    animationIn: 'slide',
+    animationOut: 'fade',
+    seconds: 5,
+  },
+  'end-card': {
+    kind: 'end-card',
+    text: 'Thanks for watching',
+    subtitle: 'Follow for more',
+    image: null,
+    font: 'sans-serif',
+    size: 0.08,
+    color: '#ffffff',
+    position: 'center',
+    animationIn: 'zoom',
+    animationOut: 'none',
+    seconds: 4,
+  },
+  watermark: {
+    kind: 'watermark',
+    text: 'CineGen',
+    subtitle: '',
+    image: null,
+    font: 'sans-serif',
+    size: 0.04,
+    color: '#ffffff',
+    position: 'top-right',
+    animationIn: 'none',
+    animationOut: 'none',
+    seconds: null,
+  },
+};
+
+export const OVERLAY_LABELS: Record<OverlayKind, string> = {
+  title: 'Title',
+  'lower-third': 'Lower third',
+  'end-card': 'End card',
+  watermark: 'Watermark',
+};
+
+// A new layer from its template: titles open the movie, end cards close it, lower thirds
+// start at the playhead and watermarks run throughout
+export const createOverlay = (kind: OverlayKind, duration: number, playhead: number, title: string): OverlayLayer => {
+  const { seconds, ...template } = OVERLAY_TEMPLATES[kind];
+  const length = seconds ?? duration;
+  const start = kind === 'end-card' ? Math.max(0, duration - length) : kind === 'lower-third' ? playhead : 0;
+  return {
+    ...template,
+    id: `overlay-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    text: kind === 'title' ? title : template.text,
+    start,
+    end: Math.max(start + 0.5, Math.min(duration || start + length, start + length)),
+  };
+};
+
+// Decoded logos, keyed by layer id, for drawOverlays. Pass a cache to skip decoding
+// images that have not changed since the last call.
+export const loadOverlayImages = async (
+  layers: OverlayLayer[],
+  cache: WeakMap<Blob, ImageBitmap> = new WeakMap()
+): Promise<Map<string, ImageBitmap>> => {
+  const images = new Map<string, ImageBitmap>();
+  await Promise.all(layers.map(async (layer) => {
+    if (!layer.image) return;
+    const bitmap = cache.get(layer.image) || (await createImageBitmap(layer.image));
+    cache.set(layer.image, bitmap);
+    images.set(layer.id, bitmap);
+  }));
+  return images;
+};
+
+// Applies an in or out animation to the context; progress runs from 0 (hidden) to 1 (fully in)
+const animate = (ctx: CanvasRenderingContext2D, animation: OverlayAnimation, progress: number, unit: number, cx: number, cy: number) => {
+  const eased = 1 - Math.pow(1 - Math.max(0, Math.min(1, progress)), 3);
+  if (animation === 'none') return;
+  ctx.globalAlpha *= eased;
+  if (animation === 'slide') {
+    ctx.translate(-(1 - eased) * unit * 6, 0);
+  } else if (animation === 'zoom') {
+    const scale = 0.8 + 0.2 * eased;
+    ctx.translate(cx, cy);
+    ctx.scale(scale, scale);
+    ctx.translate(-cx, -cy);
+  }
+};
+
+// Anchor point and alignment for a position, inside a margin from the frame edges
+const anchor = (position: OverlayPosition, width: number, height: number, margin: number) => {
+  const [vertical, horizontal] = position === 'center' ? ['center', 'center']
+    : position === 'top' ? ['top', 'center']
+    : position === 'bottom' ? ['bottom', 'center']
+    : position.split('-');
+  const align: CanvasTextAlign = horizontal === 'left' ? 'left' : horizontal === 'right' ? 'right' : 'center';
+  const x = align === 'left' ? margin : align === 'right' ? width - margin : width / 2;
+  const y = vertical === 'top' ? margin : vertical === 'bottom' ? height - margin : height / 2;
+  return { x, y, align, vertical };
+};
+
+const drawLayer = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  layer: OverlayLayer,
+  image: ImageBitmap | undefined
+) => {
+  const unit = Math.min(width, height) / 100;
+  const margin = unit * 6;
+  const textSize = layer.size * height;
+  const subtitleSize = textSize * 0.55;
+  const lineGap = textSize * 0.25;
+  const { x, y, align, vertical } = anchor(layer.position, width, height, margin);
+
+  ctx.font = `bold ${textSize}px ${layer.font}`;
+  const textWidth = layer.text ? ctx.measureText(layer.text).width : 0;
+  ctx.font = `${subtitleSize}px ${layer.font}`;
+  const subtitleWidth = layer.subtitle ? ctx.measureText(layer.subtitle).width : 0;
+
+  // The block's size decides where it starts for the chosen anchor
+  const imageHeight = image ? textSize * 2 : 0;
+  const imageWidth = image ? (image.width / image.height) * imageHeight : 0;
+  const blockWidth = image ? imageWidth : Math.max(textWidth, subtitleWidth);
+  const blockHeight = image ? imageHeight : textSize + (layer.subtitle ? lineGap + subtitleSize : 0);
+  const left = align === 'left' ? x : align === 'right' ? x - blockWidth : x - blockWidth / 2;
+  const top = vertical === 'top' ? y : vertical === 'bottom' ? y - blockHeight : y - blockHeight / 2;
+
+  if (layer.kind === 'end-card') {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(0, 0, width, height);
+  }
+  if (layer.kind === 'lower-third') {
+    const pad = textSize * 0.35;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(left - pad, top - pad, blockWidth + pad * 2, blockHeight + pad * 2);
+    ctx.fillStyle = '#a855f7';
+    ctx.fillRect(align === 'right' ? left + blockWidth + pad : left - pad - unit, top - pad, unit, blockHeight + pad * 2);
+  }
+  if (layer.kind === 'watermark') {
+    ctx.globalAlpha *= 0.7;
+  }
+
+  if (image) {
+    ctx.drawImage(image, left, top, imageWidth, imageHeight);
+    return;
+  }
+
+  ctx.textAlign = align;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = layer.color;
+  if (layer.kind === 'title' || layer.kind === 'watermark') {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = unit * 1.5;
+  }
+  const textX = align === 'left' ? left : align === 'right' ? left + blockWidth : left + blockWidth / 2;
+  ctx.font = `bold ${textSize}px ${layer.font}`;
+  ctx.fillText(layer.text, textX, top);
+  if (layer.subtitle) {
+    ctx.globalAlpha *= 0.85;
+    ctx.font = `${subtitleSize}px ${layer.font}`;
+    ctx.fillText(layer.subtitle, textX, top + textSize + lineGap);
+  }
+};
+
+// Draws every layer visible at `time` (seconds on the movie timeline), bottom layer first
+export const drawOverlays = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  layers: OverlayLayer[],
+  time: number,
+  images: Map<string, ImageBitmap>
+) => {
+  const unit = Math.min(width, height) / 100;
+  layers.forEach((layer) => {
+    if (time < layer.start || time >= layer.end) return;
+    ctx.save();
+    animate(ctx, layer.animationIn, (time - layer.start) / ANIMATION_SECONDS, unit, width / 2, height / 2);
+    animate(ctx, layer.animationOut, (layer.end - time) / ANIMATION_SECONDS, unit, width / 2, height / 2);
+    drawLayer(ctx, width, height, layer, images.get(layer.id));
+    ctx.restore();
+  });
+};
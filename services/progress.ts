@@ -0,0 +1,102 @@
+import { PipelineStage, ProgressReporter, StageProgress } from "../types";
+
+// Progress bus for the generation pipeline. Services report each stage through a
+// ProgressReporter; the app emits those reports under a scope (a scene, the script,
+// a batch job) so the checklist, the queue and anything else can subscribe.
+
+export interface ProgressEvent extends StageProgress {
+  scope: string;
+  at: number;
+}
+
+export const PIPELINE_STAGES: { stage: PipelineStage; label: string }[] = [
+  { stage: 'script', label: 'Script' },
+  { stage: 'video', label: 'Video render' },
+  { stage: 'download', label: 'Video download' },
+  { stage: 'speech', label: 'Voiceover (TTS)' },
+  { stage: 'decode', label: 'Audio decode' },
+];
+
+// Scope for the screenplay stage of the open project
+export const SCRIPT_SCOPE = 'script';
+
+// Batch jobs run outside the open project; their scopes are kept apart from its scenes
+const BATCH_SCOPE_PREFIX = 'batch:';
+export const batchScope = (jobId: string): string => `${BATCH_SCOPE_PREFIX}${jobId}`;
+export const isBatchScope = (scope: string): boolean => scope.startsWith(BATCH_SCOPE_PREFIX);
+
+const listeners = new Set<(event: ProgressEvent) => void>();
+
+export const emitProgress = (scope: string, progress: StageProgress) => {
+  const event = { ...progress, scope, at: Date.now() };
+  listeners.forEach((listener) => listener(event));
+};
+
+export const reporterFor = (scope: string): ProgressReporter => (progress) => emitProgress(scope, progress);
+
+// Returns an unsubscribe function
+export const subscribeProgress = (listener: (event: ProgressEvent) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Reports a stage as active for the duration of a step, then done or failed
+export const trackStage = async <T>(report: ProgressReporter | undefined, stage: PipelineStage, run: () => Promise<T>): Promise<T> => {
+  report?.({ stage, state: 'active' });
+  try {
+    const result = await run();
+    report?.({ stage, state: 'done' });
+    return result;
+  } catch (err) {
+    report?.({ stage, state: 'error' });
+    throw err;
+  }
+};
+
+// Reads a response body, reporting bytes as they arrive
+export const readWithProgress = async (response: Response, report?: ProgressReporter): Promise<Blob> => {
+  const total = Number(response.headers.get('content-length')) || undefined;
+  if (!response.body || !report) return response.blob();
+
+  const reader = response.body.getReader();
+  const chunks: BlobPart[] = [];
+  let loaded = 0;
+  report({ stage: 'download', state: 'active', loaded, total });
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    report({ stage: 'download', state: 'active', loaded, total });
+  }
+  report({ stage: 'download', state: 'done', loaded, total });
+  return new Blob(chunks, { type: response.headers.get('content-type') || 'video/mp4' });
+};
+
+// Elapsed/remaining time of a render or bytes of a download; now lets the caller
+// count the time since the last poll
+export const describeStageDetail = (event: ProgressEvent, now: number = event.at): string | null => {
+  if (event.stage === 'video' && event.elapsedMs !== undefined) {
+    const since = event.state === 'active' ? now - event.at : 0;
+    const elapsed = event.elapsedMs + since;
+    const remaining = event.remainingMs !== undefined ? Math.max(0, event.remainingMs - since) : null;
+    return remaining !== null && event.state === 'active'
+      ? `${formatDuration(elapsed)} elapsed · ~${formatDuration(remaining)} left`
+      : formatDuration(elapsed);
+  }
+  if (event.stage === 'download' && event.loaded !== undefined) {
+    return event.total ? `${formatBytes(event.loaded)} of ${formatBytes(event.total)}` : formatBytes(event.loaded);
+  }
+  return null;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const formatDuration = (ms: number): string => {
+  const s = Math.max(0, Math.round(ms / 1000));
+  return s < 60 ? `${s}s` : `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, '0')}s`;
+};
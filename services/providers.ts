@@ -0,0 +1,13 @@
+import { GenerationProvider, ProviderId } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+const PROVIDERS: Record<ProviderId, GenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Selected at build time through GENERATION_PROVIDER in .env.local (defaults to Gemini)
+export const getProvider = (id: string | undefined = process.env.GENERATION_PROVIDER): GenerationProvider => {
+  return PROVIDERS[id as ProviderId] || geminiProvider;
+};
@@ -0,0 +1,67 @@
+import { ScriptOptions } from "../types";
+
+// Script prompt construction. The template is user-editable; placeholders in {{double braces}}
+// are filled from the script options, and {{fields}} expands to the per-mode output spec.
+
+const TEMPLATE_KEY = 'cinegen.scriptTemplate';
+
+export const STYLE_PRESETS: Record<string, string> = {
+  cinematic: 'Cinematic short film: evocative visuals, restrained and emotional voiceover.',
+  documentary: 'Nature/history documentary: calm, informative narration with observational camera work.',
+  trailer: 'Movie trailer: punchy, dramatic lines that build suspense, with bold sweeping shots.',
+  commercial: 'Product commercial: upbeat, persuasive copy and clean, polished visuals.',
+  explainer: 'Explainer video: clear, friendly narration that walks through one idea per scene.',
+  noir: 'Film noir: moody first-person narration, low-key lighting and rain-soaked streets.',
+};
+
+export const TONES = ['neutral', 'dramatic', 'uplifting', 'suspenseful', 'humorous', 'whimsical', 'melancholic'];
+
+export const LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Hindi', 'Japanese', 'Korean', 'Chinese'];
+
+export const DEFAULT_SCRIPT_TEMPLATE = `You are a professional movie script writer.
+Break this idea into a storyboard of exactly {{sceneCount}} scene(s): "{{idea}}".
+Style: {{style}}
+Tone: {{tone}}.
+Write all spoken text in {{language}}; keep the visual prompts in English.
+{{length}}
+For each scene provide:
+{{fields}}`;
+
+const NARRATION_FIELDS = `- prompt: a detailed visual description of what the camera sees, suitable for a video generation model.
+- narration: a short, engaging voiceover line (1-2 sentences) spoken over that scene.
+- duration: the target length of the scene in seconds, between 5 and 10.
+The narration lines should flow into each other as one continuous voiceover.
+Do not add labels like "Voiceover:" or "Narrator:" to the narration.`;
+
+const DIALOGUE_FIELDS = `- prompt: a detailed visual description of what the camera sees, suitable for a video generation model.
+- lines: 2-4 short lines of dialogue, each with the speaker's name (use the same names across scenes) and the spoken text.
+- duration: the target length of the scene in seconds, between 5 and 10.
+The story is told through dialogue between two or three recurring characters.
+Do not put the speaker's name or stage directions inside the spoken text.`;
+
+export const buildScriptPrompt = (idea: string, sceneCount: number, options: ScriptOptions = {}): string => {
+  const values: Record<string, string> = {
+    idea,
+    sceneCount: String(sceneCount),
+    style: STYLE_PRESETS[options.style || ''] || options.style || STYLE_PRESETS.cinematic,
+    tone: options.tone || 'neutral',
+    language: options.language || 'English',
+    length: options.targetDuration
+      ? `The whole movie should run about ${Math.round(options.targetDuration)} seconds, so size the scene durations and the amount of spoken text to fit.`
+      : '',
+    fields: options.mode === 'dialogue' ? DIALOGUE_FIELDS : NARRATION_FIELDS,
+  };
+  const template = options.template?.trim() || DEFAULT_SCRIPT_TEMPLATE;
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+};
+
+// The edited template survives reloads; null means the built-in one
+export const loadScriptTemplate = (): string | null => localStorage.getItem(TEMPLATE_KEY);
+
+export const saveScriptTemplate = (template: string | null) => {
+  if (template && template.trim() !== DEFAULT_SCRIPT_TEMPLATE) {
+    localStorage.setItem(TEMPLATE_KEY, template);
+  } else {
+    localStorage.removeItem(TEMPLATE_KEY);
+  }
+};
@@ -0,0 +1,39 @@
+import { ShotSpec } from "../types";
+
+// Suggestions for the shot builder; any free text is accepted too
+export const SHOT_OPTIONS: Record<Exclude<keyof ShotSpec, 'negativePrompt'>, string[]> = {
+  camera: ['static tripod shot', 'slow dolly in', 'dolly out', 'tracking shot', 'handheld', 'crane up', 'aerial drone shot', 'orbit around the subject', 'whip pan'],
+  lens: ['14mm ultra wide', '24mm wide', '35mm', '50mm', '85mm portrait', '135mm telephoto', 'macro', 'anamorphic'],
+  lighting: ['golden hour', 'blue hour', 'soft overcast', 'harsh midday sun', 'neon', 'candlelight', 'high-key studio', 'low-key chiaroscuro', 'volumetric light rays'],
+  style: ['photorealistic', 'cinematic film grain', '35mm film', 'anime', 'stop motion', 'watercolor', 'documentary', 'vintage VHS'],
+  mood: ['serene', 'tense', 'joyful', 'melancholic', 'mysterious', 'epic', 'dreamlike', 'ominous'],
+};
+
+export const SHOT_LABELS: Record<keyof ShotSpec, string> = {
+  camera: 'Camera',
+  lens: 'Lens',
+  lighting: 'Lighting',
+  style: 'Style',
+  mood: 'Mood',
+  negativePrompt: 'Avoid',
+};
+
+// The shot spec as prompt text, e.g. "Camera: slow dolly in. Lens: 35mm."
+// The negative prompt is not part of the text; it goes to Veo's negativePrompt config.
+export const describeShot = (shot?: ShotSpec): string => {
+  if (!shot) return '';
+  return [
+    shot.camera && `Camera: ${shot.camera}.`,
+    shot.lens && `Lens: ${shot.lens}.`,
+    shot.lighting && `Lighting: ${shot.lighting}.`,
+    shot.style && `Style: ${shot.style}.`,
+    shot.mood && `Mood: ${shot.mood}.`,
+  ].filter(Boolean).join(' ');
+};
+
+// Appends the shot spec to the scene description as the prompt Veo receives
+export const composeShotPrompt = (prompt: string, shot?: ShotSpec): string => {
+  const spec = describeShot(shot);
+  if (!spec) return prompt;
+  return `${prompt.trim().replace(/[.\s]*$/, '.')} ${spec}`;
+};
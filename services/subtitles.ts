@@ -0,0 +1,120 @@
+import { CaptionCue, MovieData } from "../types";
+import { detectSilences, findSpeechBounds } from "./audioUtils";
+import { measureTimeline } from "./movieUtils";
+import { shotEnd } from "./audioMixer";
+
+const MAX_CUE_CHARS = 42;
+const MAX_SNAP_SECONDS = 0.6;
+
+// Splits narration into caption-sized chunks: sentences first, then at word boundaries
+export const splitCaptionText = (text: string, maxChars: number = MAX_CUE_CHARS): string[] => {
+  const sentences = text.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]*["”']?\s*/g) || [];
+  const chunks: string[] = [];
+
+  for (const sentence of sentences.map((s) => s.trim()).filter(Boolean)) {
+    let current = '';
+    for (const word of sentence.split(' ')) {
+      if (current && (current + ' ' + word).length > maxChars) {
+        chunks.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) chunks.push(current);
+  }
+
+  return chunks;
+};
+
+// Times caption chunks against the narration audio.
+// Speech is located by trimming leading/trailing silence; chunk boundaries are first estimated
+// from character counts, then snapped to a nearby pause in the PCM when there is one.
+export const buildCaptionCues = (text: string, audio: AudioBuffer, offset: number = 0): CaptionCue[] => {
+  const chunks = splitCaptionText(text);
+  if (chunks.length === 0) return [];
+
+  const { start: speechStart, end: speechEnd } = findSpeechBounds(audio);
+  const silences = detectSilences(audio);
+  const speechLength = Math.max(0.1, speechEnd - speechStart);
+  const pauses = silences.filter((s) => s.start > speechStart && s.end < speechEnd);
+
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const used = new Set<number>();
+  const cues: CaptionCue[] = [];
+  let start = speechStart;
+  let chars = 0;
+
+  chunks.forEach((chunk, i) => {
+    chars += chunk.length;
+    let end = speechEnd;
+    let nextStart = speechEnd;
+
+    if (i < chunks.length - 1) {
+      const estimate = speechStart + (chars / totalChars) * speechLength;
+      end = nextStart = estimate;
+
+      let best = -1;
+      pauses.forEach((pause, p) => {
+        if (used.has(p) || pause.start <= start) return;
+        const distance = Math.abs((pause.start + pause.end) / 2 - estimate);
+        if (distance <= MAX_SNAP_SECONDS && (best < 0 || distance < Math.abs((pauses[best].start + pauses[best].end) / 2 - estimate))) {
+          best = p;
+        }
+      });
+      if (best >= 0) {
+        used.add(best);
+        end = pauses[best].start;
+        nextStart = pauses[best].end;
+      }
+    }
+
+    cues.push({ start: offset + start, end: offset + Math.max(end, start + 0.1), text: chunk });
+    start = nextStart;
+  });
+
+  return cues;
+};
+
+// Cues for the whole storyboard, offset by the real length of each filmed clip
+export const buildMovieCues = async (movie: MovieData): Promise<CaptionCue[]> => {
+  const cues: CaptionCue[] = [];
+  const timeline = await measureTimeline(movie);
+
+  timeline.forEach((entry, index) => {
+    const scene = movie.scenes.find((s) => s.id === entry.id);
+    if (!scene?.audioBuffer) return;
+    // Narration that runs past its shot is cut off in playback, so clip the cues too
+    const end = shotEnd(movie.scenes, timeline, index);
+    buildCaptionCues(scene.narration, scene.audioBuffer, entry.start + scene.audioOffset)
+      .filter((cue) => cue.start < end)
+      .forEach((cue) => cues.push({ ...cue, end: Math.min(cue.end, end) }));
+  });
+
+  return cues;
+};
+
+export const findActiveCue = (cues: CaptionCue[], time: number): CaptionCue | null =>
+  cues.find((cue) => time >= cue.start && time < cue.end) || null;
+
+// Formatting
+
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width: number = 2) => String(n).padStart(width, '0');
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const formatSrt = (cues: CaptionCue[]): string =>
+  cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+
+export const formatVtt = (cues: CaptionCue[]): string =>
+  'WEBVTT\n\n' +
+  cues
+    .map((cue) => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
@@ -0,0 +1,37 @@
+import { Scene, Take, VideoRequest } from "../types";
+import { MAX_SEED } from "./videoSettings";
+
+// Takes: a scene's videoUrl/render is the take in use; every other candidate lives in
+// scene.takes. Choosing a favourite swaps it into use and the old clip into the takes.
+
+export const createTakeId = () => `take-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// One request per take, identical except for the seed
+export const buildTakeRequests = (request: VideoRequest, count: number): VideoRequest[] =>
+  Array.from({ length: Math.max(1, count) }, (_, i) => ({ ...request, seed: (request.seed + i * 7919) % MAX_SEED }));
+
+// Puts a new clip in use; the clip it replaces and any extra candidates are kept as takes
+export const putClipInUse = (scene: Scene, clip: Take, alternates: Take[] = []): Partial<Scene> => {
+  const previous: Take[] = scene.videoUrl ? [{ id: createTakeId(), videoUrl: scene.videoUrl, render: scene.render }] : [];
+  return {
+    videoUrl: clip.videoUrl,
+    render: clip.render,
+    takes: [...(scene.takes || []), ...previous, ...alternates],
+  };
+};
+
+export const promoteTake = (scene: Scene, takeId: string): Partial<Scene> => {
+  const take = scene.takes?.find((t) => t.id === takeId);
+  if (!take) return {};
+  return putClipInUse({ ...scene, takes: scene.takes!.filter((t) => t.id !== takeId) }, take);
+};
+
+// Drops a take for good; the caller revokes its URL
+export const discardTake = (scene: Scene, takeId: string): Partial<Scene> => ({
+  takes: (scene.takes || []).filter((t) => t.id !== takeId),
+});
+
+export const revokeSceneUrls = (scene: Scene) => {
+  if (scene.videoUrl) URL.revokeObjectURL(scene.videoUrl);
+  scene.takes?.forEach((take) => URL.revokeObjectURL(take.videoUrl));
+};
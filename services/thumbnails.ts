@@ -0,0 +1,159 @@
+import { AspectRatio, MovieData, PosterFrame } from "../types";
+import { openClip, closeClip, seekClip, canvasToBlob } from "./frames";
+import { measureTimeline } from "./movieUtils";
+import { encodeGif, GifFrame } from "./gifEncoder";
+
+export type StillFormat = 'png' | 'jpeg';
+export type StillOverlay = 'none' | 'title' | 'narration';
+
+export interface StillOptions {
+  format: StillFormat;
+  overlay: StillOverlay;
+  quality?: number; // JPEG only, 0..1
+}
+
+// Stills are full HD; previews stay small enough to post anywhere
+const STILL_SIZE: Record<AspectRatio, { width: number; height: number }> = {
+  [AspectRatio.Landscape]: { width: 1920, height: 1080 },
+  [AspectRatio.Portrait]: { width: 1080, height: 1920 },
+};
+const PREVIEW_SIZE: Record<AspectRatio, { width: number; height: number }> = {
+  [AspectRatio.Landscape]: { width: 480, height: 270 },
+  [AspectRatio.Portrait]: { width: 270, height: 480 },
+};
+const PREVIEW_FPS = 8;
+const PREVIEW_MAX_FRAMES = 40;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context is not available.');
+  return { canvas, ctx };
+};
+
+// Scales the frame to fill the canvas, cropping whatever overhangs (clips may not match the ratio exactly)
+const drawCover = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, width: number, height: number) => {
+  const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+  ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && ctx.measureText(`${current} ${word}`).width > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+// The title, and optionally a line of the script, over a dark gradient along the bottom
+export const drawTextOverlay = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  title: string,
+  caption?: string
+) => {
+  const unit = Math.min(width, height) / 20;
+  const margin = unit * 1.5;
+  const maxWidth = width - margin * 2;
+  const titleFont = `bold ${unit * 1.6}px sans-serif`;
+  const captionFont = `italic ${unit * 0.8}px sans-serif`;
+
+  ctx.font = titleFont;
+  const titleLines = wrapText(ctx, title, maxWidth).slice(0, 2);
+  ctx.font = captionFont;
+  const captionLines = caption ? wrapText(ctx, `"${caption}"`, maxWidth).slice(0, 3) : [];
+
+  // Laid out upwards from the bottom margin
+  const titleHeight = unit * 1.9;
+  const captionHeight = unit * 1.1;
+  const top = height - margin - titleLines.length * titleHeight - captionLines.length * captionHeight;
+
+  const gradient = ctx.createLinearGradient(0, top - margin * 2, 0, height);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0.85)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, top - margin * 2, width, height - top + margin * 2);
+
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#ffffff';
+  ctx.font = titleFont;
+  titleLines.forEach((line, i) => ctx.fillText(line, margin, top + i * titleHeight));
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.font = captionFont;
+  const captionTop = top + titleLines.length * titleHeight;
+  captionLines.forEach((line, i) => ctx.fillText(line, margin, captionTop + i * captionHeight));
+};
+
+// The chosen poster frame, falling back to the first frame of the first filmed clip
+export const resolvePoster = (movie: MovieData): PosterFrame | null => {
+  const poster = movie.poster;
+  if (poster && movie.scenes.some((s) => s.id === poster.sceneId && s.videoUrl)) return poster;
+  const first = movie.scenes.find((s) => s.videoUrl);
+  return first ? { sceneId: first.id, time: 0 } : null;
+};
+
+// A still of one frame at the movie's aspect ratio, with the optional text overlay
+export const renderStill = async (movie: MovieData, frame: PosterFrame, options: StillOptions): Promise<Blob> => {
+  const scene = movie.scenes.find((s) => s.id === frame.sceneId);
+  if (!scene?.videoUrl) throw new Error('The poster scene has not been filmed.');
+
+  const { width, height } = STILL_SIZE[movie.aspectRatio];
+  const { canvas, ctx } = createCanvas(width, height);
+  const video = await openClip(scene.videoUrl);
+  try {
+    await seekClip(video, frame.time);
+    drawCover(ctx, video, width, height);
+  } finally {
+    closeClip(video);
+  }
+
+  if (options.overlay !== 'none') {
+    drawTextOverlay(ctx, width, height, movie.title, options.overlay === 'narration' ? scene.narration : undefined);
+  }
+  return canvasToBlob(canvas, `image/${options.format}`, options.format === 'jpeg' ? options.quality ?? 0.92 : undefined);
+};
+
+// A looping GIF that skims the whole movie: frames sampled evenly across the timeline
+export const renderAnimatedPreview = async (movie: MovieData, onProgress?: (progress: number) => void): Promise<Blob> => {
+  const timeline = await measureTimeline(movie);
+  const total = timeline.reduce((sum, t) => sum + t.duration, 0);
+  if (total === 0) throw new Error('There are no filmed scenes to preview.');
+
+  const { width, height } = PREVIEW_SIZE[movie.aspectRatio];
+  const { ctx } = createCanvas(width, height);
+  const count = Math.min(PREVIEW_MAX_FRAMES, Math.ceil(total * PREVIEW_FPS));
+  const frames: GifFrame[] = [];
+  let open: { id: string; video: HTMLVideoElement } | null = null;
+
+  try {
+    for (let i = 0; i < count; i++) {
+      const time = ((i + 0.5) / count) * total;
+      const entry = timeline.find((t) => time < t.start + t.duration) || timeline[timeline.length - 1];
+      if (open?.id !== entry.id) {
+        if (open) closeClip(open.video);
+        const videoUrl = movie.scenes.find((s) => s.id === entry.id)!.videoUrl!;
+        open = { id: entry.id, video: await openClip(videoUrl) };
+      }
+      await seekClip(open.video, time - entry.start);
+      drawCover(ctx, open.video, width, height);
+      frames.push({ data: ctx.getImageData(0, 0, width, height).data, delayMs: 1000 / PREVIEW_FPS });
+      onProgress?.((i + 1) / count);
+    }
+  } finally {
+    if (open) closeClip(open.video);
+  }
+
+  return encodeGif(width, height, frames);
+};
@@ -0,0 +1,209 @@
+import { GenerationProvider, MovieData, Scene } from "../types";
+import { getVideoDuration } from "./movieUtils";
+import { buildVideoRequest } from "./videoSettings";
+
+// Usage ledger: every provider call is recorded with its model, input size, output length,
+// latency and an estimated cost from a user-editable price table. Kept in localStorage.
+
+export type UsageKind = 'script' | 'video' | 'speech';
+
+export interface UsageEntry {
+  id: string;
+  kind: UsageKind;
+  model: string;
+  inputChars: number;
+  outputSeconds: number;
+  latencyMs: number;
+  cost: number; // estimated, USD
+  ok: boolean;
+  at: number;
+}
+
+// Estimated USD prices per model; any field may be left out
+export interface ModelPrice {
+  perCall?: number;
+  perSecond?: number; // of generated audio/video
+  perThousandChars?: number; // of input text
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface Budget {
+  monthlyLimit: number | null; // USD; null disables the check
+  mode: 'warn' | 'block';
+}
+
+export interface UsageTotals {
+  session: number;
+  month: number;
+  calls: number;
+}
+
+const LEDGER_KEY = 'cinegen.usageLedger';
+const PRICES_KEY = 'cinegen.priceTable';
+const BUDGET_KEY = 'cinegen.budget';
+const RETENTION_MS = 100 * 24 * 60 * 60 * 1000;
+const CHARS_PER_SPEECH_SECOND = 15;
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash': { perCall: 0.001, perThousandChars: 0.0002 },
+  'veo-3.1-fast-generate-preview': { perSecond: 0.15 },
+  'gemini-2.5-flash-preview-tts': { perThousandChars: 0.0005, perSecond: 0.0003 },
+  'mock-script': {},
+  'mock-video': {},
+  'mock-speech': {},
+};
+
+const DEFAULT_BUDGET: Budget = { monthlyLimit: null, mode: 'warn' };
+
+const sessionStart = Date.now();
+const listeners = new Set<() => void>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// Storage
+
+export const listUsage = (): UsageEntry[] => readJson<UsageEntry[]>(LEDGER_KEY, []);
+
+export const getPriceTable = (): PriceTable => ({ ...DEFAULT_PRICE_TABLE, ...readJson<PriceTable>(PRICES_KEY, {}) });
+
+export const savePriceTable = (prices: PriceTable) => {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+  listeners.forEach((listener) => listener());
+};
+
+export const getBudget = (): Budget => ({ ...DEFAULT_BUDGET, ...readJson<Partial<Budget>>(BUDGET_KEY, {}) });
+
+export const saveBudget = (budget: Budget) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  listeners.forEach((listener) => listener());
+};
+
+export const clearUsage = () => {
+  localStorage.removeItem(LEDGER_KEY);
+  listeners.forEach((listener) => listener());
+};
+
+// Notifies when the ledger, prices or budget change; returns an unsubscribe function
+export const subscribeUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const recordUsage = (entry: Omit<UsageEntry, 'id' | 'at' | 'cost'>) => {
+  const at = Date.now();
+  const full: UsageEntry = {
+    ...entry,
+    id: `${at}-${Math.random().toString(36).slice(2, 8)}`,
+    at,
+    cost: entry.ok ? priceCall(entry.model, entry.inputChars, entry.outputSeconds) : 0,
+  };
+  const kept = listUsage().filter((e) => at - e.at < RETENTION_MS);
+  localStorage.setItem(LEDGER_KEY, JSON.stringify([...kept, full]));
+  listeners.forEach((listener) => listener());
+};
+
+// Pricing
+
+export const priceCall = (model: string, inputChars: number, outputSeconds: number, prices: PriceTable = getPriceTable()): number => {
+  const price = prices[model] || {};
+  return (price.perCall || 0) + (price.perSecond || 0) * outputSeconds + (price.perThousandChars || 0) * (inputChars / 1000);
+};
+
+export const getUsageTotals = (entries: UsageEntry[] = listUsage()): UsageTotals => {
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+  return entries.reduce(
+    (totals, e) => ({
+      session: totals.session + (e.at >= sessionStart ? e.cost : 0),
+      month: totals.month + (e.at >= monthStart ? e.cost : 0),
+      calls: totals.calls + (e.at >= sessionStart ? 1 : 0),
+    }),
+    { session: 0, month: 0, calls: 0 }
+  );
+};
+
+// Cost of writing a storyboard, before it is requested
+export const estimateScriptCost = (provider: GenerationProvider, idea: string): number =>
+  priceCall(provider.models.script, idea.length + 1500, 0);
+
+// Cost of filming and voicing the given scenes with the movie's current settings
+export const estimateFilmingCost = (provider: GenerationProvider, movie: MovieData, scenes: Scene[], takes: number = movie.video.takes): number =>
+  scenes.reduce((sum, scene) => {
+    const seconds = buildVideoRequest(scene, movie).durationSeconds;
+    const chars = scene.narration.length;
+    return sum
+      + takes * priceCall(provider.models.video, scene.prompt.length, seconds)
+      + priceCall(provider.models.speech, chars, chars / CHARS_PER_SPEECH_SECOND);
+  }, 0);
+
+// Cost of translating and re-voicing the movie into each language
+export const estimateLocalizationCost = (provider: GenerationProvider, movie: MovieData, languages: string[]): number => {
+  const chars = movie.scenes.reduce((sum, scene) => sum + scene.narration.length, 0);
+  return languages.length * (
+    priceCall(provider.models.script, chars + 500, 0)
+    + priceCall(provider.models.speech, chars, chars / CHARS_PER_SPEECH_SECOND)
+  );
+};
+
+// Whether a job of the given estimated cost fits in this month's budget
+export const checkBudget = (estimate: number): { allowed: boolean; message: string | null } => {
+  const budget = getBudget();
+  if (budget.monthlyLimit === null) return { allowed: true, message: null };
+
+  const spent = getUsageTotals().month;
+  if (spent + estimate <= budget.monthlyLimit) return { allowed: true, message: null };
+
+  const message = `This job is estimated at $${estimate.toFixed(2)}, which would take this month's spend to $${(spent + estimate).toFixed(2)} of your $${budget.monthlyLimit.toFixed(2)} budget.`;
+  return budget.mode === 'block'
+    ? { allowed: false, message: `${message} Raise the budget to continue.` }
+    : { allowed: true, message: `${message} Continue anyway?` };
+};
+
+// Wraps a provider so every generation call lands in the ledger
+export const withUsageTracking = (provider: GenerationProvider): GenerationProvider => {
+  const track = async <T>(
+    kind: UsageKind,
+    model: string,
+    inputChars: number,
+    run: () => Promise<T>,
+    measure: (result: T) => number | Promise<number> = () => 0
+  ): Promise<T> => {
+    const started = performance.now();
+    try {
+      const result = await run();
+      const outputSeconds = await measure(result);
+      recordUsage({ kind, model, inputChars, outputSeconds, latencyMs: performance.now() - started, ok: true });
+      return result;
+    } catch (err) {
+      recordUsage({ kind, model, inputChars, outputSeconds: 0, latencyMs: performance.now() - started, ok: false });
+      throw err;
+    }
+  };
+
+  return {
+    ...provider,
+    generateScript: (idea, sceneCount, options) =>
+      track('script', provider.models.script, idea.length, () => provider.generateScript(idea, sceneCount, options)),
+    rewriteNarration: (narration, targetSeconds, currentSeconds) =>
+      track('script', provider.models.script, narration.length, () => provider.rewriteNarration(narration, targetSeconds, currentSeconds)),
+    enhancePrompt: (prompt, shot) =>
+      track('script', provider.models.script, prompt.length, () => provider.enhancePrompt(prompt, shot)),
+    translateScript: (scenes, language) =>
+      track('script', provider.models.script, scenes.reduce((sum, s) => sum + s.narration.length, 0), () => provider.translateScript(scenes, language)),
+    generateVideo: (request, options) =>
+      track('video', provider.models.video, request.prompt.length, () => provider.generateVideo(request, options), () => request.durationSeconds),
+    // Only the clip tells how long a render from an earlier session was
+    resumeVideo: (operationName, options) =>
+      track('video', provider.models.video, 0, () => provider.resumeVideo(operationName, options), (url) => getVideoDuration(url).catch(() => 0)),
+    generateSpeech: (text, voice, options) =>
+      track('speech', provider.models.speech, text.length, () => provider.generateSpeech(text, voice, options), (buffer) => buffer.duration),
+  };
+};
@@ -0,0 +1,199 @@
+import { ColorLut, VideoEffects } from "../types";
+
+export const DEFAULT_EFFECTS: VideoEffects = {
+  lut: null,
+  lutStrength: 1,
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  vignette: 0,
+  grain: 0,
+  letterbox: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+};
+
+export const LETTERBOX_RATIOS = [1.85, 2, 2.39];
+
+// Whether the picture needs to go through the effect pipeline at all
+export const hasEffects = (effects: VideoEffects): boolean =>
+  (!!effects.lut && effects.lutStrength > 0) ||
+  effects.brightness !== 0 ||
+  effects.contrast !== 0 ||
+  effects.saturation !== 0 ||
+  effects.vignette > 0 ||
+  effects.grain > 0 ||
+  effects.letterbox > 0 ||
+  effects.fadeIn > 0 ||
+  effects.fadeOut > 0;
+
+// Picture level at a point of the movie: 0 is black, 1 untouched
+export const fadeLevel = (effects: VideoEffects, time: number, duration: number): number => {
+  const fadeIn = effects.fadeIn > 0 ? time / effects.fadeIn : 1;
+  const fadeOut = effects.fadeOut > 0 ? (duration - time) / effects.fadeOut : 1;
+  return Math.max(0, Math.min(1, fadeIn, fadeOut));
+};
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Order matters: grade first (LUTs expect the picture as filmed), then the adjustments,
+// then the lens and film texture, and the fade and mattes last
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+uniform sampler2D u_frame;
+uniform sampler3D u_lut;
+uniform float u_lutSize;
+uniform float u_lutStrength;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform float u_vignette;
+uniform float u_grain;
+uniform float u_seed;
+uniform float u_fade;
+uniform float u_matte;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 outColor;
+
+float noise(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233)) + u_seed) * 43758.5453);
+}
+
+void main() {
+  vec3 color = texture(u_frame, v_uv).rgb;
+  if (u_lutStrength > 0.0) {
+    vec3 coord = color * (u_lutSize - 1.0) / u_lutSize + 0.5 / u_lutSize;
+    color = mix(color, texture(u_lut, coord).rgb, u_lutStrength);
+  }
+  color += u_brightness * 0.5;
+  color = (color - 0.5) * (1.0 + u_contrast) + 0.5;
+  float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  color = mix(vec3(luma), color, 1.0 + u_saturation);
+  color *= 1.0 - u_vignette * smoothstep(0.35, 0.85, length(v_uv - 0.5) * 1.41421);
+  color += (noise(floor(v_uv * u_resolution)) - 0.5) * u_grain * 0.3;
+  color *= u_fade;
+  if (abs(v_uv.y - 0.5) > 0.5 - u_matte) color = vec3(0.0);
+  outColor = vec4(clamp(color, 0.0, 1.0), 1.0);
+}`;
+
+export interface EffectRenderer {
+  canvas: HTMLCanvasElement;
+  // Draws one frame of the source through the effects; `fade` comes from fadeLevel
+  render: (source: HTMLVideoElement, effects: VideoEffects, fade: number) => void;
+  dispose: () => void;
+}
+
+const compile = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Effect shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+};
+
+// WebGL2 effect pipeline drawing into its own canvas; null where WebGL2 is unavailable
+export const createEffectRenderer = (canvas: HTMLCanvasElement = document.createElement('canvas')): EffectRenderer | null => {
+  const gl = canvas.getContext('webgl2', { preserveDrawingBuffer: true });
+  if (!gl) return null;
+
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Effect shader failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  gl.useProgram(program);
+
+  // One triangle strip covering the viewport
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, 'a_position');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  const texture = (unit: number, target: number) => {
+    const tex = gl.createTexture()!;
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(target, tex);
+    gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+    return tex;
+  };
+  const frameTexture = texture(0, gl.TEXTURE_2D);
+  const lutTexture = texture(1, gl.TEXTURE_3D);
+  gl.uniform1i(uniform('u_frame'), 0);
+  gl.uniform1i(uniform('u_lut'), 1);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+
+  // The LUT is uploaded once per table, not per frame
+  let uploadedLut: ColorLut | null = null;
+  const uploadLut = (lut: ColorLut) => {
+    if (lut === uploadedLut) return;
+    const data = new Uint8Array(lut.data.length);
+    lut.data.forEach((value, i) => { data[i] = Math.round(value * 255); });
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_3D, lutTexture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB8, lut.size, lut.size, lut.size, 0, gl.RGB, gl.UNSIGNED_BYTE, data);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    uploadedLut = lut;
+  };
+
+  const render = (source: HTMLVideoElement, effects: VideoEffects, fade: number) => {
+    const width = source.videoWidth;
+    const height = source.videoHeight;
+    if (!width || !height) return;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, frameTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+    if (effects.lut) uploadLut(effects.lut);
+    gl.uniform1f(uniform('u_lutSize'), effects.lut?.size || 2);
+    gl.uniform1f(uniform('u_lutStrength'), effects.lut ? effects.lutStrength : 0);
+    gl.uniform1f(uniform('u_brightness'), effects.brightness);
+    gl.uniform1f(uniform('u_contrast'), effects.contrast);
+    gl.uniform1f(uniform('u_saturation'), effects.saturation);
+    gl.uniform1f(uniform('u_vignette'), effects.vignette);
+    gl.uniform1f(uniform('u_grain'), effects.grain);
+    gl.uniform1f(uniform('u_seed'), Math.random() * 100);
+    gl.uniform1f(uniform('u_fade'), fade);
+    // Matte height per bar, as a fraction of the frame
+    const matte = effects.letterbox > width / height ? (1 - width / height / effects.letterbox) / 2 : 0;
+    gl.uniform1f(uniform('u_matte'), matte);
+    gl.uniform2f(uniform('u_resolution'), width, height);
+
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  };
+
+  const dispose = () => {
+    gl.deleteTexture(frameTexture);
+    gl.deleteTexture(lutTexture);
+    gl.deleteBuffer(buffer);
+    gl.deleteProgram(program);
+  };
+
+  return { canvas, render, dispose };
+};
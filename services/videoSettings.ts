@@ -0,0 +1,68 @@
+import { MovieData, Scene, VideoRequest, VideoSettings, VideoRender, VideoResolution, ProviderId } from "../types";
+import { composeShotPrompt } from "./shotBuilder";
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  resolution: '1080p',
+  durationSeconds: null,
+  seed: null,
+  negativePrompt: '',
+  takes: 1,
+};
+
+export const MAX_TAKES = 4;
+
+// Clip lengths Veo accepts
+export const CLIP_DURATIONS = [4, 6, 8];
+
+export const MAX_SEED = 2 ** 32 - 1;
+
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+const nearestClipDuration = (seconds: number): number =>
+  CLIP_DURATIONS.reduce((best, d) => (Math.abs(d - seconds) < Math.abs(best - seconds) ? d : best));
+
+// Veo only films 1080p clips at 8 seconds
+export const FULL_HD_CLIP_DURATION = 8;
+
+export const allowsClipDuration = (resolution: VideoResolution, seconds: number): boolean =>
+  resolution !== '1080p' || seconds === FULL_HD_CLIP_DURATION;
+
+// Seconds of video one clip of the scene is filmed at
+export const clipDurationFor = (scene: Scene, movie: Pick<MovieData, 'video'>): number => {
+  if (movie.video.resolution === '1080p') return FULL_HD_CLIP_DURATION;
+  return movie.video.durationSeconds ?? nearestClipDuration(scene.duration);
+};
+
+// Resolves the movie settings and the scene's shot into the exact request for one clip.
+// A random seed is drawn here rather than left to the model so every result can be reproduced.
+export const buildVideoRequest = (scene: Scene, movie: Pick<MovieData, 'aspectRatio' | 'video'>): VideoRequest => {
+  const negativePrompt = [movie.video.negativePrompt, scene.shot?.negativePrompt]
+    .map((text) => text?.trim())
+    .filter(Boolean)
+    .join(', ');
+
+  return {
+    prompt: composeShotPrompt(scene.prompt, scene.shot),
+    aspectRatio: movie.aspectRatio,
+    resolution: movie.video.resolution,
+    durationSeconds: clipDurationFor(scene, movie),
+    seed: movie.video.seed ?? randomSeed(),
+    negativePrompt: negativePrompt || undefined,
+    startFrame: scene.startFrame || null,
+  };
+};
+
+export const toRender = (request: VideoRequest, provider: ProviderId): VideoRender => ({
+  ...request,
+  provider,
+  renderedAt: Date.now(),
+});
+
+export const describeRender = (render: VideoRender): string =>
+  [
+    render.resolution,
+    `${render.durationSeconds}s`,
+    `seed ${render.seed}`,
+    render.startFrame ? 'from image' : null,
+    render.negativePrompt ? `avoid: ${render.negativePrompt}` : null,
+  ].filter(Boolean).join(' · ');
@@ -0,0 +1,68 @@
+import { Scene } from "../types";
+import { fromAudioBuffer, toAudioBuffer } from "./audioUtils";
+import { decodeWav } from "./audioCodec";
+import { GenerationError } from "./errors";
+
+// Narration from outside the TTS models: a microphone take or a supplied audio file.
+// Either way it ends up as a mono AudioBuffer at the context rate, the same shape
+// generateSpeech returns, so timing, captions, mixing and export treat it the same.
+
+export interface VoiceRecording {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+// Opens the microphone and starts recording; nothing is kept until stop() resolves
+export const startVoiceRecording = async (): Promise<VoiceRecording> => {
+  if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+    throw new Error('This browser cannot record audio.');
+  }
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true },
+  });
+  const mimeType = RECORDING_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+  const release = () => stream.getTracks().forEach((track) => track.stop());
+
+  recorder.start();
+  return {
+    stop: async () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      release();
+      return new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+    },
+    cancel: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+};
+
+// Decodes a recording or an uploaded file into mono narration.
+// WAV goes through our own codec (24-bit and float included); anything else through the browser.
+export const decodeVoiceover = async (file: Blob, ctx: BaseAudioContext): Promise<AudioBuffer> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    const isWav = bytes.byteLength > 12 && String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF';
+    const audio = isWav ? decodeWav(bytes) : fromAudioBuffer(await ctx.decodeAudioData(bytes.buffer.slice(0)));
+
+    const mono = new Float32Array(audio.channels[0]?.length || 0);
+    audio.channels.forEach((data) => {
+      for (let i = 0; i < mono.length; i++) mono[i] += data[i] / audio.channels.length;
+    });
+    return toAudioBuffer({ sampleRate: audio.sampleRate, channels: [mono] }, ctx);
+  } catch (err: any) {
+    throw new GenerationError('audio-decode', `Could not decode the voiceover: ${err?.message || err}`, err);
+  }
+};
+
+export const hasCustomVoice = (scene: Pick<Scene, 'voiceSource'>): boolean =>
+  scene.voiceSource === 'recording' || scene.voiceSource === 'upload';
@@ -11,16 +11,259 @@ export enum VoiceName {
   Zephyr = 'Zephyr',
 }
 
+export type ErrorKind = 'auth' | 'quota' | 'safety' | 'timeout' | 'download' | 'audio-decode' | 'cancelled' | 'unknown';
+
 export interface GenerationStatus {
   step: 'idle' | 'script' | 'video' | 'audio' | 'complete' | 'error';
   message?: string;
   error?: string;
+  errorKind?: ErrorKind;
 }
 
-export interface MovieData {
+export type ScriptMode = 'narration' | 'dialogue';
+
+// One spoken line of a dialogue scene
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// One storyboard entry as written by the script model
+export interface SceneScript {
+  prompt: string;
+  narration: string; // in dialogue scenes, the lines' text joined for captions and timing
+  duration: number; // target length in seconds
+  lines?: DialogueLine[]; // present in dialogue scenes
+}
+
+export interface ScriptOptions {
+  mode?: ScriptMode;
+  tone?: string;
+  style?: string; // a preset key or free-form description
+  language?: string;
+  targetDuration?: number; // seconds for the whole movie
+  template?: string; // prompt template, see scriptTemplates
+  signal?: AbortSignal; // cancels the request itself, not just the wait for it
+}
+
+// Cinematography for one shot, composed into the Veo prompt
+export interface ShotSpec {
+  camera?: string; // movement, e.g. "slow dolly in"
+  lens?: string;
+  lighting?: string;
+  style?: string;
+  mood?: string;
+  negativePrompt?: string;
+}
+
+export type VideoResolution = '720p' | '1080p';
+
+// Movie-wide Veo defaults
+export interface VideoSettings {
+  resolution: VideoResolution;
+  durationSeconds: number | null; // null: nearest supported length to the scene's target
+  seed: number | null; // null: a fresh random seed per render (still recorded)
+  negativePrompt: string;
+  takes: number; // candidate clips filmed per scene
+}
+
+// Everything sent to the video model for one clip
+export interface VideoRequest {
+  prompt: string; // as sent, shot spec included
+  aspectRatio: AspectRatio;
+  resolution: VideoResolution;
+  durationSeconds: number;
+  seed: number;
+  negativePrompt?: string;
+  startFrame?: Blob | null; // image-to-video
+}
+
+// The request behind a finished clip, kept so it can be reproduced exactly
+export interface VideoRender extends VideoRequest {
+  provider: ProviderId;
+  renderedAt: number;
+}
+
+// A candidate clip for a scene that is not the one in use
+export interface Take {
   id: string;
-  script: string;
   videoUrl: string;
+  render?: VideoRender;
+}
+
+export interface Scene extends SceneScript {
+  id: string;
+  shot?: ShotSpec;
+  startFrame?: Blob | null; // uploaded first frame for image-to-video
+  render?: VideoRender; // request behind videoUrl
+  takes?: Take[]; // alternate and rejected takes, kept until discarded
+  videoUrl: string | null;
   audioBuffer: AudioBuffer | null;
+  audioOffset: number; // seconds into the clip before the narration starts
+  voiceSource?: VoiceSource; // where audioBuffer came from; missing means TTS
+  continues?: string; // extension clip: id of the scene whose shot (and narration) it carries on
+  status: GenerationStatus;
+}
+
+// Narration recorded through the microphone or uploaded is never replaced by TTS
+export type VoiceSource = 'tts' | 'recording' | 'upload';
+
+// Soundtrack mix applied on top of the narration
+export interface MixSettings {
+  narrationVolume: number; // 0..1
+  musicVolume: number; // 0..1
+  ducking: boolean;
+  duckLevel: number; // music gain multiplier while narration is speaking, 0..1
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+  limiter: boolean;
+}
+
+// 3D colour lookup table, as in a .cube file: RGB triples with red changing fastest
+export interface ColorLut {
+  name: string;
+  size: number; // entries per axis
+  data: Float32Array; // size^3 * 3 values, 0..1
+}
+
+// Picture adjustments applied over the whole movie, in the player and in the export
+export interface VideoEffects {
+  lut: ColorLut | null; // colour grade
+  lutStrength: number; // 0..1
+  brightness: number; // -1..1, 0 leaves the picture as filmed
+  contrast: number; // -1..1
+  saturation: number; // -1..1
+  vignette: number; // 0..1
+  grain: number; // 0..1
+  letterbox: number; // aspect ratio the picture is matted to, e.g. 2.39; 0 for none
+  fadeIn: number; // seconds from black at the start of the movie
+  fadeOut: number; // seconds to black at the end
+}
+
+// Text and logo layers composited over the picture at set times
+export type OverlayKind = 'title' | 'lower-third' | 'end-card' | 'watermark';
+export type OverlayAnimation = 'none' | 'fade' | 'slide' | 'zoom';
+export type OverlayPosition = 'top-left' | 'top' | 'top-right' | 'center' | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export interface OverlayLayer {
+  id: string;
+  kind: OverlayKind;
+  text: string;
+  subtitle: string; // second line: a name's role, the call to action...
+  image: Blob | null; // logo, drawn instead of the text when set
+  font: string; // CSS font family
+  size: number; // text height as a fraction of the frame height
+  color: string;
+  position: OverlayPosition;
+  start: number; // seconds on the movie timeline
+  end: number;
+  animationIn: OverlayAnimation;
+  animationOut: OverlayAnimation;
+}
+
+export interface MusicBed {
+  name: string;
+  file: Blob; // encoded source, kept for saving to the library
+  buffer: AudioBuffer;
+}
+
+// One scene's narration in another language
+export interface LocalizedScene {
+  sceneId: string;
+  narration: string;
+  lines?: DialogueLine[];
+  audioBuffer: AudioBuffer | null;
+}
+
+export interface LanguageTrack {
+  language: string;
+  voice: VoiceName; // narrator; dialogue keeps the movie's cast
+  scenes: LocalizedScene[];
+  createdAt: number;
+}
+
+// The frame that stands for the movie: a moment in one of its clips
+export interface PosterFrame {
+  sceneId: string;
+  time: number; // seconds into the scene's clip
+}
+
+export interface MovieData {
+  id: string;
+  title: string;
+  idea: string;
+  scenes: Scene[];
   aspectRatio: AspectRatio;
+  video: VideoSettings;
+  voice: VoiceName; // narrator, and the fallback for speakers without a voice
+  cast: Record<string, VoiceName>; // dialogue speaker -> voice
+  lineGap: number; // seconds of silence between dialogue lines
+  music: MusicBed | null;
+  mix: MixSettings;
+  effects: VideoEffects;
+  overlays: OverlayLayer[]; // bottom to top
+  tracks: LanguageTrack[]; // translated narration over the same clips
+  poster: PosterFrame | null; // null: the first frame of the first clip
+  preview: Blob | null; // animated GIF skimming the movie, for the library and sharing
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Polling / retry behaviour for long-running video operations
+export interface OperationPolicy {
+  pollIntervalMs: number;
+  maxWaitMs: number;
+  maxRetries: number; // consecutive transient failures tolerated per request
+  backoffBaseMs: number;
+}
+
+// Pipeline stages reported independently, so a voiceover recorded alongside a render shows up too
+export type PipelineStage = 'script' | 'video' | 'download' | 'speech' | 'decode';
+
+export interface StageProgress {
+  stage: PipelineStage;
+  state: 'active' | 'done' | 'error';
+  elapsedMs?: number;
+  remainingMs?: number; // estimate
+  loaded?: number; // bytes
+  total?: number; // bytes, when the server sends a length
+}
+
+export type ProgressReporter = (progress: StageProgress) => void;
+
+export interface VideoJobOptions {
+  signal?: AbortSignal;
+  policy?: Partial<OperationPolicy>;
+  startedAt?: number; // when resuming, the wait budget counts from the original start
+  onOperationStarted?: (operationName: string) => void;
+  onProgress?: ProgressReporter;
+}
+
+export interface SpeechOptions {
+  onProgress?: ProgressReporter;
+  signal?: AbortSignal;
+}
+
+export interface CaptionCue {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Backend that turns ideas into scripts, clips and narration
+export interface GenerationProvider {
+  id: ProviderId;
+  label: string;
+  models: { script: string; video: string; speech: string }; // names used for usage pricing
+  ensureApiKey: () => Promise<boolean>;
+  promptForApiKey: () => Promise<void>;
+  generateScript: (idea: string, sceneCount?: number, options?: ScriptOptions) => Promise<SceneScript[]>;
+  rewriteNarration: (narration: string, targetSeconds: number, currentSeconds: number) => Promise<string>;
+  enhancePrompt: (prompt: string, shot?: ShotSpec) => Promise<string>; // short idea -> detailed cinematography
+  translateScript: (scenes: SceneScript[], language: string) => Promise<SceneScript[]>; // spoken text in another language, one entry per scene
+  generateVideo: (request: VideoRequest, options?: VideoJobOptions) => Promise<string>; // object URL
+  resumeVideo: (operationName: string, options?: VideoJobOptions) => Promise<string>;
+  generateSpeech: (text: string, voice: VoiceName, options?: SpeechOptions) => Promise<AudioBuffer>;
 }